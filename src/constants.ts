@@ -1,6 +1,10 @@
-/** Grid dimensions */
-export const GRID_COLS = 8;
-export const GRID_ROWS = 8;
+import type { BombCombo } from "./types";
+
+/** Default grid dimensions (the board size is chosen at runtime) */
+export const DEFAULT_COLS = 8;
+export const DEFAULT_ROWS = 8;
+export const MIN_GRID_SIZE = 3;
+export const MAX_GRID_SIZE = 12;
 
 /** Visual sizing (pixels) */
 export const TILE_SIZE = 64;
@@ -10,24 +14,66 @@ export const BOARD_PADDING = 20;
 
 /** Derived board dimensions */
 export const CELL_SIZE = TILE_SIZE + TILE_GAP;
-export const BOARD_WIDTH = CELL_SIZE * GRID_COLS - TILE_GAP + BOARD_PADDING * 2;
-export const BOARD_HEIGHT = CELL_SIZE * GRID_ROWS - TILE_GAP + BOARD_PADDING * 2;
+
+/** Board width in pixels for a grid with `cols` columns. */
+export function boardWidth(cols: number): number {
+  return CELL_SIZE * cols - TILE_GAP + BOARD_PADDING * 2;
+}
+
+/** Board height in pixels for a grid with `rows` rows. */
+export function boardHeight(rows: number): number {
+  return CELL_SIZE * rows - TILE_GAP + BOARD_PADDING * 2;
+}
 
 /** Animation durations (seconds) */
 export const SWAP_DURATION = 0.2;
 export const FALL_DURATION = 0.15; // per cell
 export const DESTROY_DURATION = 0.25;
 export const SPAWN_DURATION = 0.15;
+export const BOMB_SPAWN_DURATION = 0.4; // new bombs spring in with an elastic ease
 export const BOMB_DELAY = 0.1; // delay before bomb effect triggers
 export const LASER_DURATION = 0.15; // laser beam flash/fade duration
+export const COMBINE_DURATION = 0.18; // two swapped bombs merging before a combo fires
+export const SHAKE_DURATION = 0.24; // a tile refusing to be selected or swapped
 export const HINT_DELAY = 5000; // ms before hint blinks start
+export const SHUFFLE_DURATION = 0.45; // tiles flying to their reshuffled cells
+export const SHUFFLE_NOTICE_DURATION = 0.3; // fade of the "shuffling" banner
+export const UNDO_DURATION = 0.15; // tiles morphing back to the previous board
 export const HINT_BLINK_INTERVAL = 250; // ms per half-cycle (2 blinks/sec = 250ms on, 250ms off)
+export const SCREEN_SHAKE_DURATION = 0.45; // the board rattling after a whole-board clear
+export const REDUCED_MOTION_SCALE = 0.4; // swaps and falls take this much of their usual time with reduced motion
 
-/** Scoring */
+/** Most particles alive at once, so big cascades stay smooth on low-end phones. */
+export const MAX_PARTICLES = 240;
+
+/** Scoring (points; see game/Scoring.ts for how each award is worked out) */
 export const POINTS_PER_TILE = 10;
-export const COMBO_MULTIPLIER = 1.5;
-export const LINE_BOMB_BONUS = 20;
-export const COLOR_BOMB_BONUS = 50;
+export const CASCADE_POINTS = 50; // times the cascade level, once per wave of falling matches
+export const LINE_BOMB_POINTS = 200;
+export const AREA_BOMB_POINTS = 300;
+export const COLOR_BOMB_POINTS = 500; // plus POINTS_PER_TILE for each tile cleared
+export const CHAIN_POINTS = 25; // times each clear's place after the first, for several clears in one move
+export const SCORE_POPUP_DURATION = 0.7; // seconds a "+120" popup floats before fading
+
+/** Bonus for swapping two bombs into each other, on top of what they clear */
+export const BOMB_COMBO_POINTS: Record<BombCombo, number> = {
+  "line+line": 400,
+  "line+area": 600,
+  "area+area": 800,
+  "color+line": 1000,
+  "color+area": 1200,
+  "color+color": 1500,
+};
+
+/** Cells an area bomb clears in each direction (1 = a 3x3 block) */
+export const AREA_BOMB_RADIUS = 1;
+
+/** Random layouts tried when reshuffling before giving up */
+export const SHUFFLE_ATTEMPTS = 200;
+
+/** Undos allowed per game, by default and at most (see Settings.undoLimit) */
+export const UNDO_LIMIT = 3;
+export const MAX_UNDO_LIMIT = 10;
 
 /** Minimum match length */
 export const MIN_MATCH = 3;
@@ -46,3 +92,20 @@ export const TILE_COLORS: number[] = [
   0xffffff, // LineBomb (white — drawn with special indicator)
   0xffffff, // ColorBomb (white — drawn as rainbow)
 ];
+
+/**
+ * Colorblind-safe alternative to TILE_COLORS (the Okabe–Ito palette),
+ * indexed by regular TileType.
+ */
+export const COLORBLIND_TILE_COLORS: number[] = [
+  0xd55e00, // Red → vermillion
+  0x0072b2, // Blue
+  0x009e73, // Green → bluish green
+  0xf0e442, // Yellow
+  0xcc79a7, // Purple → reddish purple
+  0xe69f00, // Orange
+  0x56b4e9, // Pink → sky blue
+];
+
+/** Lower-case names of the regular colors, indexed by TileType (used in level files and labels). */
+export const COLOR_NAMES: string[] = ["red", "blue", "green", "yellow", "purple", "orange", "pink"];
@@ -0,0 +1,180 @@
+import { COLOR_NAMES } from "../constants";
+import { TileType } from "../types";
+import type { BoardShape, CellState, GridPosition } from "../types";
+import { DEFAULT_SHAPE, firstPlayable, isPlayable } from "../utils/shape";
+import type { SwapCallback } from "./InputHandler";
+
+const KEY_STEPS: Record<string, GridPosition> = {
+  ArrowUp: { row: -1, col: 0 },
+  ArrowDown: { row: 1, col: 0 },
+  ArrowLeft: { row: 0, col: -1 },
+  ArrowRight: { row: 0, col: 1 },
+};
+
+/** Spoken name of what a cell holds, e.g. "blue", "vertical line bomb, red", "stone". */
+export function describeCell(cell: CellState | null, ice = 0): string {
+  if (!cell) return "empty";
+  const base = cell.baseType !== undefined ? `, ${COLOR_NAMES[cell.baseType]}` : "";
+  let text: string;
+  switch (cell.type) {
+    case TileType.LineBomb:
+      text = `${cell.orientation ?? "horizontal"} line bomb${base}`;
+      break;
+    case TileType.AreaBomb:
+      text = `area bomb${base}`;
+      break;
+    case TileType.ColorBomb:
+      text = "color bomb";
+      break;
+    case TileType.Stone:
+      text = "stone";
+      break;
+    default:
+      text = COLOR_NAMES[cell.type] ?? "tile";
+  }
+  if (cell.locked) text += ", locked";
+  if (ice > 0) text += ice > 1 ? `, under ${ice} layers of ice` : ", under ice";
+  return text;
+}
+
+/**
+ * An invisible but focusable DOM grid that mirrors the canvas board for
+ * screen readers. Arrow keys move focus between cells; Space/Enter picks
+ * up the focused tile and the next arrow swaps it that way (Escape puts it
+ * back). Cells are labelled "row 3, column 5, blue".
+ */
+export class AccessibleGrid {
+  private el: HTMLElement;
+  private onSwap: SwapCallback;
+  private shape: BoardShape = DEFAULT_SHAPE;
+  private canSwap: (pos: GridPosition) => boolean = () => true;
+  private enabled = true;
+  private cells: HTMLElement[][] = [];
+  private labels: string[][] = [];
+  /** Cell that keeps tabindex 0, so Tab returns to where the player was. */
+  private focus: GridPosition = { row: 0, col: 0 };
+  /** Tile picked up with Space/Enter, waiting for a direction. */
+  private held: GridPosition | null = null;
+
+  constructor(onSwap: SwapCallback) {
+    this.onSwap = onSwap;
+    this.el = document.getElementById("board-grid")!;
+    this.el.addEventListener("keydown", this.onKeyDown);
+  }
+
+  /** Rebuild the cells for a new board layout. */
+  setShape(shape: BoardShape): void {
+    this.shape = shape;
+    this.held = null;
+    this.el.replaceChildren();
+    this.cells = [];
+    this.labels = [];
+    this.el.setAttribute("aria-rowcount", String(shape.rows));
+    this.el.setAttribute("aria-colcount", String(shape.cols));
+
+    for (let r = 0; r < shape.rows; r++) {
+      const rowEl = document.createElement("div");
+      rowEl.setAttribute("role", "row");
+      this.cells[r] = [];
+      this.labels[r] = [];
+      for (let c = 0; c < shape.cols; c++) {
+        const cell = document.createElement("div");
+        cell.setAttribute("role", "gridcell");
+        cell.tabIndex = -1;
+        cell.addEventListener("focus", () => { this.focus = { row: r, col: c }; });
+        rowEl.appendChild(cell);
+        this.cells[r][c] = cell;
+        this.labels[r][c] = "";
+      }
+      this.el.appendChild(rowEl);
+    }
+
+    if (!isPlayable(shape, this.focus.row, this.focus.col)) this.focus = firstPlayable(shape);
+    this.cells[this.focus.row]?.[this.focus.col]?.setAttribute("tabindex", "0");
+    this.render();
+  }
+
+  setSwapFilter(canSwap: (pos: GridPosition) => boolean): void {
+    this.canSwap = canSwap;
+  }
+
+  setEnabled(v: boolean): void {
+    this.enabled = v;
+    this.el.setAttribute("aria-disabled", String(!v));
+    if (!v) this.setHeld(null);
+  }
+
+  /** Refresh every cell's label from `describe` (called once the board settles). */
+  update(describe: (row: number, col: number) => string): void {
+    for (let r = 0; r < this.shape.rows; r++) {
+      for (let c = 0; c < this.shape.cols; c++) {
+        this.labels[r][c] = isPlayable(this.shape, r, c) ? describe(r, c) : "no cell";
+      }
+    }
+    this.render();
+  }
+
+  private render(): void {
+    for (let r = 0; r < this.shape.rows; r++) {
+      for (let c = 0; c < this.shape.cols; c++) {
+        const held = this.held?.row === r && this.held.col === c;
+        const cell = this.cells[r][c];
+        cell.setAttribute("aria-label", `row ${r + 1}, column ${c + 1}, ${this.labels[r][c]}`);
+        cell.setAttribute("aria-selected", String(held));
+      }
+    }
+  }
+
+  private onKeyDown = (e: KeyboardEvent): void => {
+    const step = KEY_STEPS[e.code];
+    if (step) {
+      e.preventDefault();
+      // Keep the board cursor from handling the same key
+      e.stopPropagation();
+      this.press(step);
+    } else if (e.code === "Space" || e.code === "Enter") {
+      e.preventDefault();
+      e.stopPropagation();
+      if (this.held) {
+        this.setHeld(null);
+      } else if (this.enabled && this.canSwap(this.focus)) {
+        this.setHeld(this.focus);
+      }
+    } else if (e.code === "Escape" && this.held) {
+      e.stopPropagation();
+      this.setHeld(null);
+    }
+  };
+
+  /** Swap the held tile one cell along `step`, or move focus there. */
+  private press(step: GridPosition): void {
+    if (this.held) {
+      const a = this.held;
+      const b = { row: a.row + step.row, col: a.col + step.col };
+      this.setHeld(null);
+      if (this.enabled && isPlayable(this.shape, b.row, b.col) && this.canSwap(b)) {
+        this.onSwap({ a, b });
+      }
+      return;
+    }
+
+    let { row, col } = this.focus;
+    do {
+      row += step.row;
+      col += step.col;
+    } while (row >= 0 && row < this.shape.rows && col >= 0 && col < this.shape.cols
+      && !isPlayable(this.shape, row, col));
+    if (!isPlayable(this.shape, row, col)) return;
+
+    this.cells[this.focus.row][this.focus.col].tabIndex = -1;
+    this.focus = { row, col };
+    const cell = this.cells[row][col];
+    cell.tabIndex = 0;
+    cell.focus();
+  }
+
+  private setHeld(pos: GridPosition | null): void {
+    this.held = pos;
+    this.render();
+  }
+}
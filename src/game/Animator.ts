@@ -1,23 +1,107 @@
 import { Ticker } from "pixi.js";
 
+/** Maps linear progress 0–1 to eased progress (which may overshoot). */
+export type Easing = (t: number) => number;
+
+const bounceOut: Easing = (t) => {
+  const n = 7.5625;
+  const d = 2.75;
+  if (t < 1 / d) return n * t * t;
+  if (t < 2 / d) return n * (t -= 1.5 / d) * t + 0.75;
+  if (t < 2.5 / d) return n * (t -= 2.25 / d) * t + 0.9375;
+  return n * (t -= 2.625 / d) * t + 0.984375;
+};
+
+/** Named easing curves; `quadOut` is the default. */
+export const EASINGS = {
+  linear: (t) => t,
+  quadIn: (t) => t * t,
+  quadOut: (t) => 1 - (1 - t) * (1 - t),
+  quadInOut: (t) => (t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2),
+  cubicOut: (t) => 1 - (1 - t) ** 3,
+  /** Overshoots a little and settles back, e.g. for spawning tiles. */
+  backOut: (t) => 1 + 2.70158 * (t - 1) ** 3 + 1.70158 * (t - 1) ** 2,
+  /** Bounces against the end value, e.g. for tiles landing. */
+  bounceOut,
+  /** Springs past the end value a few times, e.g. for bombs appearing. */
+  elasticOut: (t) =>
+    t === 0 || t === 1 ? t : 2 ** (-10 * t) * Math.sin((t * 10 - 0.75) * ((2 * Math.PI) / 3)) + 1,
+} satisfies Record<string, Easing>;
+
+export type EasingName = keyof typeof EASINGS;
+
+export interface TweenOptions {
+  /** Easing curve, by name or as a function (default "quadOut"). */
+  ease?: EasingName | Easing;
+  /** Seconds to wait before starting; the start values are read when it does. */
+  delay?: number;
+  /** Extra times to play after the first (Infinity loops until cancelled). */
+  repeat?: number;
+  /** Play every other repeat backwards. */
+  yoyo?: boolean;
+}
+
+/**
+ * A running tween or timeline. Await it like a promise; cancelling stops it
+ * where it is (or snaps it to the end with `finish`) and resolves it.
+ */
+export interface TweenHandle extends PromiseLike<void> {
+  readonly promise: Promise<void>;
+  cancel(finish?: boolean): void;
+}
+
 interface Tween {
   target: Record<string, number>;
-  props: Record<string, { from: number; to: number }>;
+  to: Record<string, number>;
+  /** Start values, read once the delay is over. */
+  from: Record<string, number> | null;
   elapsed: number;
+  delay: number;
   duration: number;
+  ease: Easing;
+  repeatsLeft: number;
+  yoyo: boolean;
+  /** True while a yoyo cycle plays backwards. */
+  reversed: boolean;
   resolve: () => void;
 }
 
+/** One timeline step: starts its animation and returns something to wait on. */
+type Step = () => PromiseLike<unknown> | void;
+
 /**
  * Lightweight tween system that runs off a PixiJS Ticker.
- * Each tween linearly interpolates numeric properties on a target object.
- * Returns a Promise that resolves when the animation completes.
+ * Each tween eases numeric properties on a target object and can be
+ * awaited or cancelled through the handle `animate` returns.
  */
 export class Animator {
+  /** Speed of every tween: 1 is normal, 0.5 half speed, 0 pauses everything. */
+  timeScale = 1;
+  /** Freezes every tween where it is, independently of `timeScale`. */
+  paused = false;
+
   private tweens: Tween[] = [];
+  /** Per-frame callbacks (e.g. particles) that share the tweens' clock. */
+  private listeners: ((dt: number) => void)[] = [];
 
   constructor(ticker: Ticker) {
-    ticker.add(() => this.update(ticker.deltaMS / 1000));
+    ticker.add(() => {
+      if (this.paused) return;
+      const dt = (ticker.deltaMS / 1000) * this.timeScale;
+      this.update(dt);
+      for (const listener of this.listeners) listener(dt);
+    });
+  }
+
+  /**
+   * Call `fn` every frame with the scaled seconds since the last one; it
+   * stops with the tweens while paused. Returns a function that unsubscribes.
+   */
+  onFrame(fn: (dt: number) => void): () => void {
+    this.listeners.push(fn);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== fn);
+    };
   }
 
   /** Animate numeric properties on `target` over `duration` seconds. */
@@ -25,31 +109,160 @@ export class Animator {
     target: Record<string, number>,
     to: Record<string, number>,
     duration: number,
-  ): Promise<void> {
-    return new Promise<void>((resolve) => {
-      const props: Record<string, { from: number; to: number }> = {};
-      for (const key of Object.keys(to)) {
-        props[key] = { from: target[key], to: to[key] };
-      }
-      this.tweens.push({ target, props, elapsed: 0, duration, resolve });
+    options: TweenOptions = {},
+  ): TweenHandle {
+    let tween!: Tween;
+    const promise = new Promise<void>((resolve) => {
+      const ease = options.ease ?? "quadOut";
+      tween = {
+        target,
+        to: { ...to },
+        from: null,
+        elapsed: 0,
+        delay: options.delay ?? 0,
+        duration,
+        ease: typeof ease === "function" ? ease : EASINGS[ease],
+        repeatsLeft: options.repeat ?? 0,
+        yoyo: options.yoyo ?? false,
+        reversed: false,
+        resolve,
+      };
     });
+    this.tweens.push(tween);
+
+    return {
+      promise,
+      then: (onDone, onError) => promise.then(onDone, onError),
+      cancel: (finish = false) => {
+        const i = this.tweens.indexOf(tween);
+        if (i < 0) return;
+        this.tweens.splice(i, 1);
+        if (finish) Object.assign(target, tween.to);
+        tween.resolve();
+      },
+    };
+  }
+
+  /** Wait `seconds` of animation time (scaled and paused like any tween). */
+  wait(seconds: number): TweenHandle {
+    return this.animate({}, {}, seconds);
+  }
+
+  /** Start building a sequence of steps that play one after another. */
+  timeline(): Timeline {
+    return new Timeline(this);
   }
 
   private update(dt: number): void {
     for (let i = this.tweens.length - 1; i >= 0; i--) {
       const tw = this.tweens[i];
-      tw.elapsed += dt;
-      const t = Math.min(tw.elapsed / tw.duration, 1);
-      // Ease-out quad
-      const ease = 1 - (1 - t) * (1 - t);
-      for (const key of Object.keys(tw.props)) {
-        const p = tw.props[key];
-        tw.target[key] = p.from + (p.to - p.from) * ease;
+      let step = dt;
+      if (tw.delay > 0) {
+        tw.delay -= step;
+        if (tw.delay > 0) continue;
+        step = -tw.delay;
       }
-      if (t >= 1) {
-        this.tweens.splice(i, 1);
-        tw.resolve();
+      if (!tw.from) {
+        tw.from = {};
+        for (const key of Object.keys(tw.to)) tw.from[key] = tw.target[key];
+      }
+
+      tw.elapsed += step;
+      const t = tw.duration > 0 ? Math.min(tw.elapsed / tw.duration, 1) : 1;
+      const ease = tw.ease(tw.reversed ? 1 - t : t);
+      for (const key of Object.keys(tw.to)) {
+        tw.target[key] = tw.from[key] + (tw.to[key] - tw.from[key]) * ease;
       }
+      if (t < 1) continue;
+
+      if (tw.repeatsLeft > 0) {
+        tw.repeatsLeft--;
+        tw.elapsed = 0;
+        if (tw.yoyo) tw.reversed = !tw.reversed;
+        continue;
+      }
+      this.tweens.splice(i, 1);
+      tw.resolve();
     }
   }
 }
+
+/**
+ * A sequence of animation steps, built with chained calls and started with
+ * `play()`, e.g.
+ *
+ *   animator.timeline()
+ *     .to(gfx, { alpha: 1 }, 0.1)
+ *     .add(() => destroyTiles(targets))
+ *     .to(gfx, { alpha: 0 }, 0.15)
+ *     .play();
+ *
+ * Each step waits for everything in the previous one; `with` adds a tween
+ * to the current step instead of starting a new one.
+ */
+export class Timeline {
+  private animator: Animator;
+  private steps: Step[][] = [];
+
+  constructor(animator: Animator) {
+    this.animator = animator;
+  }
+
+  /** Tween as a new step. */
+  to(target: Record<string, number>, to: Record<string, number>, duration: number, options?: TweenOptions): this {
+    return this.add(() => this.animator.animate(target, to, duration, options));
+  }
+
+  /** Tween alongside the current step. */
+  with(target: Record<string, number>, to: Record<string, number>, duration: number, options?: TweenOptions): this {
+    const step: Step = () => this.animator.animate(target, to, duration, options);
+    if (this.steps.length === 0) this.steps.push([]);
+    this.steps[this.steps.length - 1].push(step);
+    return this;
+  }
+
+  /** Run any async work (e.g. another timeline) as a new step. */
+  add(step: Step): this {
+    this.steps.push([step]);
+    return this;
+  }
+
+  /** Run a plain callback between steps. */
+  call(fn: () => void): this {
+    return this.add(fn);
+  }
+
+  /** Pause for `seconds` of animation time. */
+  wait(seconds: number): this {
+    return this.add(() => this.animator.wait(seconds));
+  }
+
+  /** Start the steps in order. Cancelling stops the running step and skips the rest. */
+  play(): TweenHandle {
+    let cancelled = false;
+    let running: PromiseLike<unknown>[] = [];
+
+    const promise = (async () => {
+      for (const step of this.steps) {
+        if (cancelled) return;
+        running = step.map((s) => s() ?? Promise.resolve());
+        await Promise.all(running);
+      }
+    })();
+
+    return {
+      promise,
+      then: (onDone, onError) => promise.then(onDone, onError),
+      cancel: (finish = false) => {
+        cancelled = true;
+        for (const r of running) {
+          if (isHandle(r)) r.cancel(finish);
+        }
+      },
+    };
+  }
+}
+
+function isHandle(p: PromiseLike<unknown>): p is TweenHandle {
+  return typeof (p as Partial<TweenHandle>).cancel === "function";
+}
@@ -0,0 +1,79 @@
+import { COLOR_NAMES } from "../constants";
+import { TileType } from "../types";
+import type { GameEvent } from "../types";
+
+/**
+ * Speaks what happened on the board through an aria-live region. Events
+ * are collected while a move animates and read out as one message when it
+ * settles, so a long cascade doesn't flood the screen reader.
+ */
+export class Announcer {
+  private el: HTMLElement;
+  private pending: string[] = [];
+
+  constructor() {
+    this.el = document.getElementById("announcer")!;
+  }
+
+  /** Note the parts of an engine event worth telling the player. */
+  note(event: GameEvent): void {
+    const text = describeEvent(event);
+    if (text) this.pending.push(text);
+  }
+
+  /** Read out everything noted since the last flush, followed by `extra`. */
+  flush(extra?: string): void {
+    const parts = extra ? [...this.pending, extra] : this.pending;
+    this.pending = [];
+    if (parts.length > 0) this.say(parts.join(". "));
+  }
+
+  /** Announce `text` now, dropping anything still pending. */
+  say(text: string): void {
+    this.pending = [];
+    // Clear first so the same message twice in a row is read again
+    this.el.textContent = "";
+    requestAnimationFrame(() => { this.el.textContent = text; });
+  }
+}
+
+function describeEvent(event: GameEvent): string | null {
+  switch (event.type) {
+    case "swapReverted":
+      return "No match, swapped back";
+    case "matched":
+      return event.groups
+        .map((group) => {
+          const cleared = event.destroyed.find((d) =>
+            group.positions.some((p) => p.row === d.row && p.col === d.col));
+          const color = cleared ? ` ${COLOR_NAMES[cleared.cell.type] ?? ""}` : "";
+          return `Matched ${group.length}${color}`;
+        })
+        .join(", ");
+    case "bonusSpawned":
+      if (event.cell.type === TileType.ColorBomb) return "Color bomb created";
+      return event.cell.type === TileType.AreaBomb ? "Area bomb created" : "Line bomb created";
+    case "bombDetonated":
+      switch (event.bomb) {
+        case "line":
+          return `Line bomb cleared a ${event.orientation === "horizontal" ? "row" : "column"}`;
+        case "area":
+          return "Area bomb exploded";
+        case "color":
+          return `Color bomb cleared every ${COLOR_NAMES[event.targetType]} tile`;
+        case "cross":
+          return "Cross blast";
+        case "board":
+          return "Whole board cleared";
+      }
+      return null;
+    case "bombsCombined":
+      return `Combo: ${event.combo.replace("+", " and ")}`;
+    case "stonesBroken":
+      return event.stones.length === 1 ? "A stone broke" : `${event.stones.length} stones broke`;
+    case "shuffled":
+      return "No moves left, board shuffled";
+    default:
+      return null;
+  }
+}
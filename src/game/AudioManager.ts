@@ -0,0 +1,220 @@
+import type { Settings } from "./Settings";
+
+/** Every sound effect the board can trigger. */
+export type SoundEffect =
+  | "swap"
+  | "invalid"
+  | "match"
+  | "beam"
+  | "laser"
+  | "boardClear"
+  | "land"
+  | "gameOver";
+
+/** Volume and mute choices the mixer applies; a subset of the saved settings. */
+export type MixSettings = Pick<Settings, "musicVolume" | "sfxVolume" | "musicMuted" | "sfxMuted">;
+
+/** Root of the match chime; each cascade level raises it by MATCH_STEP semitones. */
+const MATCH_BASE_FREQ = 523.25;
+const MATCH_STEP = 2;
+/** Cascade level past which the match chime stops rising. */
+const MATCH_MAX_LEVEL = 8;
+
+/** Background loop: one bass note and arpeggio per bar, at MUSIC_BPM. */
+const MUSIC_BPM = 96;
+const MUSIC_CHORDS = [
+  [220.0, 261.63, 329.63], // Am
+  [174.61, 220.0, 261.63], // F
+  [196.0, 246.94, 293.66], // G
+  [164.81, 207.65, 246.94], // E
+];
+/** How far ahead music notes are scheduled (s), and how often the scheduler runs (ms). */
+const MUSIC_LOOKAHEAD = 0.3;
+const MUSIC_TICK = 100;
+
+/**
+ * Synthesized sound effects and background music on Web Audio.
+ * Browsers only allow audio after a user gesture, so the AudioContext is
+ * created on the first pointer or key press; sounds before that are dropped.
+ */
+export class AudioManager {
+  private ctx: AudioContext | null = null;
+  private sfxGain: GainNode | null = null;
+  private musicGain: GainNode | null = null;
+  private noiseBuffer: AudioBuffer | null = null;
+  private mix: MixSettings;
+
+  /** Music scheduler state: next eighth note to play and when. */
+  private musicTimer: ReturnType<typeof setInterval> | null = null;
+  private musicStep = 0;
+  private musicTime = 0;
+
+  constructor(mix: MixSettings) {
+    this.mix = { ...mix };
+    window.addEventListener("pointerdown", this.unlock);
+    window.addEventListener("keydown", this.unlock);
+  }
+
+  /** Apply new volumes/mutes; music stops entirely while silent. */
+  setMix(mix: MixSettings): void {
+    this.mix = { ...mix };
+    this.applyMix();
+  }
+
+  /** Suspend all sound (music included) while the game is paused. */
+  setPaused(paused: boolean): void {
+    if (!this.ctx) return;
+    void (paused ? this.ctx.suspend() : this.ctx.resume());
+  }
+
+  /**
+   * Play a sound effect. `level` is the cascade level for "match", which
+   * raises the chime's pitch as chains grow.
+   */
+  play(effect: SoundEffect, level = 0): void {
+    const ctx = this.ctx;
+    if (!ctx || this.sfxVolume === 0) return;
+    const t = ctx.currentTime;
+
+    switch (effect) {
+      case "swap":
+        this.tone(t, 520, 700, 0.09, "triangle", 0.35);
+        break;
+      case "invalid":
+        this.tone(t, 240, 160, 0.12, "square", 0.18);
+        this.tone(t + 0.12, 200, 130, 0.14, "square", 0.18);
+        break;
+      case "match": {
+        const step = Math.min(level, MATCH_MAX_LEVEL) * MATCH_STEP;
+        const root = MATCH_BASE_FREQ * 2 ** (step / 12);
+        this.tone(t, root, root, 0.12, "sine", 0.4);
+        this.tone(t + 0.06, root * 1.5, root * 1.5, 0.16, "sine", 0.3);
+        break;
+      }
+      case "beam":
+        this.tone(t, 1100, 180, 0.4, "sawtooth", 0.22);
+        this.noise(t, 0.35, 2400, 0.3);
+        break;
+      case "laser":
+        for (let i = 0; i < 3; i++) {
+          this.tone(t + i * 0.07, 1600, 500, 0.16, "square", 0.12);
+        }
+        break;
+      case "boardClear":
+        this.noise(t, 1.1, 900, 0.6);
+        this.tone(t, 160, 40, 1.0, "sine", 0.6);
+        break;
+      case "land":
+        this.tone(t, 150, 70, 0.08, "sine", 0.3);
+        break;
+      case "gameOver":
+        [392, 329.63, 261.63, 196].forEach((freq, i) => {
+          this.tone(t + i * 0.22, freq, freq * 0.98, 0.3, "triangle", 0.35);
+        });
+        break;
+    }
+  }
+
+  /** Create the context on the first user gesture, then start the music. */
+  private unlock = (): void => {
+    window.removeEventListener("pointerdown", this.unlock);
+    window.removeEventListener("keydown", this.unlock);
+    if (this.ctx) return;
+
+    const ctx = new AudioContext();
+    this.ctx = ctx;
+    this.sfxGain = ctx.createGain();
+    this.sfxGain.connect(ctx.destination);
+    this.musicGain = ctx.createGain();
+    this.musicGain.connect(ctx.destination);
+
+    const length = ctx.sampleRate;
+    this.noiseBuffer = ctx.createBuffer(1, length, ctx.sampleRate);
+    const data = this.noiseBuffer.getChannelData(0);
+    for (let i = 0; i < length; i++) data[i] = Math.random() * 2 - 1;
+
+    void ctx.resume();
+    this.applyMix();
+  };
+
+  private get sfxVolume(): number {
+    return this.mix.sfxMuted ? 0 : this.mix.sfxVolume;
+  }
+
+  private get musicVolume(): number {
+    return this.mix.musicMuted ? 0 : this.mix.musicVolume;
+  }
+
+  private applyMix(): void {
+    if (!this.ctx || !this.sfxGain || !this.musicGain) return;
+    const t = this.ctx.currentTime;
+    this.sfxGain.gain.setTargetAtTime(this.sfxVolume, t, 0.02);
+    this.musicGain.gain.setTargetAtTime(this.musicVolume, t, 0.05);
+
+    if (this.musicVolume > 0 && this.musicTimer === null) {
+      this.musicTime = t + 0.1;
+      this.musicTimer = setInterval(() => this.scheduleMusic(), MUSIC_TICK);
+    } else if (this.musicVolume === 0 && this.musicTimer !== null) {
+      clearInterval(this.musicTimer);
+      this.musicTimer = null;
+    }
+  }
+
+  /** Queue every eighth note that falls inside the lookahead window. */
+  private scheduleMusic(): void {
+    const ctx = this.ctx!;
+    const eighth = 60 / MUSIC_BPM / 2;
+    while (this.musicTime < ctx.currentTime + MUSIC_LOOKAHEAD) {
+      const chord = MUSIC_CHORDS[Math.floor(this.musicStep / 8) % MUSIC_CHORDS.length];
+      const beat = this.musicStep % 8;
+      if (beat === 0) {
+        this.tone(this.musicTime, chord[0] / 2, chord[0] / 2, eighth * 7, "triangle", 0.25, this.musicGain!);
+      }
+      const note = chord[[0, 1, 2, 1][beat % 4]] * (beat >= 4 ? 2 : 1);
+      this.tone(this.musicTime, note, note, eighth * 0.9, "sine", 0.08, this.musicGain!);
+      this.musicTime += eighth;
+      this.musicStep++;
+    }
+  }
+
+  /** One oscillator note gliding from `from` to `to` Hz with a quick attack and decay. */
+  private tone(
+    start: number,
+    from: number,
+    to: number,
+    duration: number,
+    wave: OscillatorType,
+    volume: number,
+    out: AudioNode = this.sfxGain!,
+  ): void {
+    const ctx = this.ctx!;
+    const osc = ctx.createOscillator();
+    const env = ctx.createGain();
+    osc.type = wave;
+    osc.frequency.setValueAtTime(from, start);
+    if (to !== from) osc.frequency.exponentialRampToValueAtTime(to, start + duration);
+    env.gain.setValueAtTime(0, start);
+    env.gain.linearRampToValueAtTime(volume, start + 0.01);
+    env.gain.exponentialRampToValueAtTime(0.001, start + duration);
+    osc.connect(env).connect(out);
+    osc.start(start);
+    osc.stop(start + duration + 0.02);
+  }
+
+  /** A burst of low-passed white noise, for explosions. */
+  private noise(start: number, duration: number, cutoff: number, volume: number): void {
+    const ctx = this.ctx!;
+    const src = ctx.createBufferSource();
+    src.buffer = this.noiseBuffer;
+    const filter = ctx.createBiquadFilter();
+    filter.type = "lowpass";
+    filter.frequency.setValueAtTime(cutoff, start);
+    filter.frequency.exponentialRampToValueAtTime(cutoff / 8, start + duration);
+    const env = ctx.createGain();
+    env.gain.setValueAtTime(volume, start);
+    env.gain.exponentialRampToValueAtTime(0.001, start + duration);
+    src.connect(filter).connect(env).connect(this.sfxGain!);
+    src.start(start);
+    src.stop(start + duration);
+  }
+}
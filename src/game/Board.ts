@@ -1,64 +1,537 @@
-import { Container, Graphics } from "pixi.js";
+import { Container, Graphics, Text } from "pixi.js";
 import {
-  GRID_COLS,
-  GRID_ROWS,
   CELL_SIZE,
   TILE_SIZE,
+  TILE_GAP,
   BOARD_PADDING,
-  BOARD_WIDTH,
-  BOARD_HEIGHT,
-  TILE_RADIUS,
-  TILE_COLORS,
+  COLORBLIND_TILE_COLORS,
+  REDUCED_MOTION_SCALE,
   SWAP_DURATION,
   FALL_DURATION,
   DESTROY_DURATION,
   SPAWN_DURATION,
-  LINE_BOMB_MATCH,
-  COLOR_BOMB_MATCH,
-  LINE_BOMB_BONUS,
-  COLOR_BOMB_BONUS,
+  BOMB_SPAWN_DURATION,
   LASER_DURATION,
+  COMBINE_DURATION,
+  SCORE_POPUP_DURATION,
   HINT_DELAY,
+  UNDO_DURATION,
+  UNDO_LIMIT,
+  SHUFFLE_DURATION,
+  SHUFFLE_NOTICE_DURATION,
+  SCREEN_SHAKE_DURATION,
+  boardWidth,
+  boardHeight,
 } from "../constants";
 import { TileType } from "../types";
-import type { GridPosition, MatchGroup, SwapRequest, BonusOrientation } from "../types";
+import type { Texture } from "pixi.js";
+import type {
+  BoardLayout,
+  BoardShape,
+  BonusOrientation,
+  CellState,
+  EngineSnapshot,
+  FallMove,
+  GameEvent,
+  GridPosition,
+  LevelDefinition,
+  LevelProgress,
+  MoveScore,
+  ReplayLog,
+  SpawnMove,
+  SwapRequest,
+} from "../types";
 import { Tile } from "./Tile";
+import { TilePool } from "./TilePool";
 import { Animator } from "./Animator";
+import type { AudioManager } from "./AudioManager";
+import type { Settings } from "./Settings";
+import { DEFAULT_THEME, loadThemeTextures } from "./Theme";
+import type { Theme } from "./Theme";
 import { InputHandler } from "./InputHandler";
+import { describeCell } from "./AccessibleGrid";
+import { Announcer } from "./Announcer";
+import { ParticleSystem } from "./Particles";
 import { ScoreManager } from "./ScoreManager";
-import { findMatches, hasValidMoves, findValidMove } from "../utils/matching";
-import { generateGrid, randomTileType } from "../utils/random";
+import { GameEngine } from "./GameEngine";
+import { ReplayRecorder } from "./Replay";
+import { saveGame, clearSavedGame } from "./SaveGame";
+import type { SavedGame } from "./SaveGame";
+import { LevelTracker, LEVELS, findLevel } from "./Level";
+import { LevelHud } from "./LevelHud";
+import { ResultScreen } from "./ResultScreen";
+import type { ResultOptions } from "./ResultScreen";
+import { Rng } from "../utils/random";
+import { DEFAULT_SHAPE, isPlayable, sameShape } from "../utils/shape";
+import { fromBoardFile, toBoardFile } from "../utils/boardFormat";
+
+/** How to set up a game. A level's own seed, shape and colors take precedence. */
+export interface GameSetup {
+  /** Fixes every random choice of the game; a fresh one is picked if omitted. */
+  seed?: number;
+  /** Board size and holes (default: plain 8x8). */
+  shape?: BoardShape;
+  /** Play this level in objective mode instead of endless play. */
+  level?: LevelDefinition;
+  /** Start from this hand-built board instead of a generated one (overrides the level's). */
+  layout?: BoardLayout;
+  /** Undos the game allows (default: the board's setting, see `setUndoLimit`). */
+  undoLimit?: number;
+}
+
+/** Display and motion choices the board applies; a subset of the saved settings. */
+export type AccessibilityOptions = Pick<Settings, "colorblind" | "highContrast" | "reducedMotion">;
+
+/** Engine state plus level progress from before a swap, for undo. */
+interface UndoEntry {
+  engine: EngineSnapshot;
+  level: LevelProgress | null;
+  /** Length of the score breakdown before the swap. */
+  scoredMoves: number;
+}
+
+/** How often a timed level's clock is updated (ms). */
+const LEVEL_TICK = 250;
 
+/**
+ * Renders the GameEngine state with Pixi and animates each move by
+ * replaying the engine's events.
+ */
 export class Board {
   readonly container: Container;
+  private background: Graphics;
+  /** Ice under the tiles, redrawn from the engine whenever it cracks. */
+  private iceLayer: Graphics;
   private tileContainer: Container;
+  /** Recycles tile views as they're cleared and spawned. */
+  private pool: TilePool;
+  private particles: ParticleSystem;
   private tiles: (Tile | null)[][] = [];
-  private grid: (TileType | null)[][] = [];
+  private engine: GameEngine;
   private animator: Animator;
+  private audio: AudioManager;
   private input: InputHandler;
   private score: ScoreManager;
+  private recorder: ReplayRecorder;
+  private results: ResultScreen;
+  private hud: LevelHud;
+  private announcer: Announcer;
+  /** Objective-mode progress; null in endless play. */
+  private tracker: LevelTracker | null = null;
+  private levelTimer: ReturnType<typeof setInterval> | null = null;
+  private seedEl: HTMLElement;
+
+  /** Called whenever a new game starts, e.g. to refit a board whose size changed. */
+  onGameStart: (() => void) | null = null;
   private busy = false;
-
-  /** Tracks the position of the last player-initiated swap (tile B's destination). */
-  private lastSwapPos: GridPosition | null = null;
+  private over = false;
+  /** True while a recorded game is being played back; player input is ignored. */
+  private replaying = false;
+  /** True while the pause menu is open: animations, timers and input are frozen. */
+  private paused = false;
+  /** A restart asked for mid-move, started once the move settles. */
+  private pendingRestart: GameSetup | null = null;
+
+  /** Engine states from before each recent valid swap, newest last. */
+  private undoStack: UndoEntry[] = [];
+  private undosLeft = UNDO_LIMIT;
+  /** Undos each new game starts with. */
+  private undoLimit = UNDO_LIMIT;
+  private undoButton: HTMLButtonElement;
+
+  /** Cascade wave the current move has reached; raises the match sound's pitch. */
+  private cascadeLevel = 0;
+
+  /** Points of each scoring move, for the breakdown on the result screen. */
+  private moveScores: MoveScore[] = [];
+
+  /** Current skin and its loaded sprites. */
+  private theme: Theme = DEFAULT_THEME;
+  private textures: (Texture | null)[] = [];
+  /** Bumped on every theme switch so a slow sprite load can't apply a stale theme. */
+  private themeLoad = 0;
+
+  /** Current accessibility choices, and the tile colors and move timings that follow from them. */
+  private a11y: AccessibilityOptions = { colorblind: false, highContrast: false, reducedMotion: false };
+  private palette: readonly number[] = DEFAULT_THEME.palette;
+  private swapDuration = SWAP_DURATION;
+  private fallDuration = FALL_DURATION;
+  private spawnDuration = SPAWN_DURATION;
+
+  /** Tile highlighted by a tap in tap-to-swap mode. */
+  private selectedTile: Tile | null = null;
 
   /** Hint system state */
   private hintTimer: ReturnType<typeof setTimeout> | null = null;
+  /** When the pending hint is due (performance.now() ms), and how long was left on it at a pause. */
+  private hintDue = 0;
+  private hintRemaining: number | null = null;
   private hintTiles: Tile[] = [];
 
-  constructor(animator: Animator) {
+  constructor(animator: Animator, audio: AudioManager, setup: GameSetup = {}) {
     this.animator = animator;
+    this.audio = audio;
     this.container = new Container();
+    this.background = new Graphics();
+    this.iceLayer = new Graphics();
     this.tileContainer = new Container();
+    this.pool = new TilePool(this.tileContainer);
+    this.particles = new ParticleSystem(animator, this.container);
     this.score = new ScoreManager();
-
-    this.drawBackground();
+    this.seedEl = document.getElementById("seed")!;
+    this.results = new ResultScreen(() => this.restart(this.setup));
+    this.hud = new LevelHud();
+    this.announcer = new Announcer();
+    this.engine = Board.createEngine(setup);
+    this.recorder = this.createRecorder(this.engine, setup);
+
+    this.container.addChild(this.background);
+    this.container.addChild(this.iceLayer);
     this.container.addChild(this.tileContainer);
+    this.container.addChild(this.particles.layer);
 
     this.input = new InputHandler(this.container, (req) => this.onSwapRequest(req));
+    this.input.setSwapFilter((pos) => this.engine.canSwap(pos));
+    this.input.onSelect = (pos) => this.showSelection(pos);
+    this.input.onReject = (pos) => {
+      void this.tiles[pos.row][pos.col]?.animateShake(this.animator);
+    };
+
+    this.undoButton = document.getElementById("undo") as HTMLButtonElement;
+    this.undoButton.addEventListener("click", () => {
+      this.undo().catch(console.error);
+    });
+
+    this.startGame(this.engine, this.recorder, this.undosFor(setup), setup.level ? new LevelTracker(setup.level) : null);
+  }
+
+  private static createEngine(setup: GameSetup): GameEngine {
+    const level = setup.level;
+    return new GameEngine(
+      new Rng(setup.seed ?? level?.seed),
+      level?.shape ?? setup.shape,
+      level?.colors,
+      level?.blockers,
+      setup.layout ?? level?.layout,
+    );
+  }
+
+  /** A fresh replay log for a game just started from `setup`. */
+  private createRecorder(engine: GameEngine, setup: GameSetup): ReplayRecorder {
+    // Kept with level boards too, so a save can check its cells against the board's colors
+    const board = engine.layout ? toBoardFile(engine.layout) : undefined;
+    return new ReplayRecorder(engine.seed, engine.typeGrid(), engine.shape, setup.level?.id, board, this.undosFor(setup));
+  }
+
+  private undosFor(setup: GameSetup): number {
+    return setup.undoLimit ?? this.undoLimit;
+  }
+
+  get seed(): number {
+    return this.engine.seed;
+  }
+
+  /** Unscaled board size in pixels. */
+  get width(): number {
+    return boardWidth(this.engine.shape.cols);
+  }
+
+  get height(): number {
+    return boardHeight(this.engine.shape.rows);
+  }
+
+  /** The moves played so far, for export. */
+  get replay(): ReplayLog {
+    return this.recorder.toJSON();
+  }
+
+  /** Settings of the current game (without its seed), for starting another like it. */
+  get setup(): GameSetup {
+    const layout = this.engine.layout !== this.tracker?.level.layout ? this.engine.layout : undefined;
+    return { shape: this.engine.shape, level: this.tracker?.level, layout };
+  }
+
+  /** The board as it stands, for export in the text board format. */
+  get layout(): BoardLayout {
+    return this.engine.currentLayout();
+  }
+
+  /** Let the player tap a tile and then a neighbor to swap them, as well as swiping. */
+  setTapToSwap(on: boolean): void {
+    this.input.setTapToSwap(on);
+  }
+
+  /**
+   * Switch to another skin once its sprites have loaded; the board is
+   * redrawn in place. Resolves when the theme is showing.
+   */
+  async setTheme(theme: Theme): Promise<void> {
+    const load = ++this.themeLoad;
+    const textures = await loadThemeTextures(theme);
+    if (load !== this.themeLoad) return;
+    this.theme = theme;
+    this.textures = textures;
+    this.applyLook();
+  }
+
+  /**
+   * Switch the palette, glyphs, board contrast and motion. Every tile is
+   * redrawn on the spot.
+   */
+  setAccessibility(options: AccessibilityOptions): void {
+    this.a11y = { ...options };
+    const speed = options.reducedMotion ? REDUCED_MOTION_SCALE : 1;
+    this.swapDuration = SWAP_DURATION * speed;
+    this.fallDuration = FALL_DURATION * speed;
+    this.spawnDuration = SPAWN_DURATION * speed;
+    this.particles.setEnabled(!options.reducedMotion);
+    this.applyLook();
+  }
+
+  /** Combine the theme with the accessibility choices and redraw the board and every tile. */
+  private applyLook(): void {
+    const colorblind = this.a11y.colorblind;
+    this.palette = colorblind ? COLORBLIND_TILE_COLORS : this.theme.palette;
+    this.pool.setLook({
+      theme: this.theme,
+      palette: this.palette,
+      // Sprites carry the theme's own colors, so colorblind mode draws shapes instead
+      textures: colorblind ? [] : this.textures,
+      boldGlyphs: colorblind,
+      highContrast: this.a11y.highContrast,
+    });
+    this.input.setTileRadius(this.theme.tileRadius);
+    this.drawBackground();
+  }
+
+  /** Tile views on the board and parked in the pool, for the perf overlay. */
+  get tileStats(): { live: number; pooled: number } {
+    return { live: this.pool.liveCount, pooled: this.pool.freeCount };
+  }
+
+  /** True once the game or level has ended and the result screen is up. */
+  get finished(): boolean {
+    return this.over;
+  }
+
+  /**
+   * Freeze or unfreeze play: tweens stop mid-flight, the hint and level
+   * timers are suspended and input is ignored, then everything carries on
+   * from the same point.
+   */
+  setPaused(paused: boolean): void {
+    if (this.paused === paused) return;
+    this.paused = paused;
+    this.animator.paused = paused;
+    this.audio.setPaused(paused);
+
+    if (paused) {
+      this.input.setEnabled(false);
+      this.stopLevelTimer();
+      if (this.hintTimer) {
+        clearTimeout(this.hintTimer);
+        this.hintTimer = null;
+        this.hintRemaining = Math.max(0, this.hintDue - performance.now());
+      }
+      for (const tile of this.hintTiles) tile.stopBlink();
+    } else {
+      if (this.hintRemaining !== null) {
+        this.startHintTimer(this.hintRemaining);
+        this.hintRemaining = null;
+      }
+      for (const tile of this.hintTiles) tile.startBlink();
+      if (!this.over) this.startLevelTimer();
+      this.input.setEnabled(!this.busy && !this.replaying && !this.over);
+    }
+    this.updateUndoButton();
+  }
+
+  /**
+   * Throw away the current game and start a new one. A move that is still
+   * animating finishes first.
+   */
+  restart(setup: GameSetup): void {
+    if (this.busy && !this.over) {
+      if (!this.replaying) this.pendingRestart = setup;
+      return;
+    }
+    this.pendingRestart = null;
+    clearSavedGame();
+    const engine = Board.createEngine(setup);
+    const recorder = this.createRecorder(engine, setup);
+    this.startGame(engine, recorder, this.undosFor(setup), setup.level ? new LevelTracker(setup.level) : null);
+  }
+
+  /** Continue a game saved by an earlier session. */
+  resume(saved: SavedGame): void {
+    if (this.busy && !this.over) return;
+    const level = saved.level ? findLevel(saved.level.id) : null;
+    const layout = saved.replay.board ? fromBoardFile(saved.replay.board) : level?.layout;
+    const engine = new GameEngine(new Rng(saved.seed), saved.shape, level?.colors, level?.blockers, layout);
+    engine.restore(saved);
+    const tracker = level && saved.level ? new LevelTracker(level, saved.level.progress) : null;
+    this.startGame(engine, ReplayRecorder.resume(saved.replay), saved.undosLeft, tracker, saved.scores);
+  }
+
+  /** Swap in a new engine state and rebuild every tile view from it. */
+  private startGame(
+    engine: GameEngine,
+    recorder: ReplayRecorder,
+    undosLeft: number,
+    tracker: LevelTracker | null,
+    moveScores: MoveScore[] = [],
+  ): void {
+    this.busy = false;
+    this.clearHint();
+    this.stopLevelTimer();
+    // Tiles park for the next game unless its board is laid out differently
+    if (sameShape(engine.shape, this.engine.shape)) {
+      this.pool.releaseAll();
+    } else {
+      this.pool.destroy();
+    }
+    this.particles.clear();
+
+    this.engine = engine;
+    this.recorder = recorder;
+    this.input.setShape(engine.shape);
+    this.drawBackground();
+    this.drawIce();
+    this.score.setScore(engine.score);
+    this.over = false;
+    this.undoStack = [];
+    this.moveScores = moveScores;
+    this.undosLeft = undosLeft;
+    this.updateUndoButton();
+    this.results.hide();
+
+    this.tracker = tracker;
+    this.hud.render(tracker);
+    this.startLevelTimer();
+
+    this.seedEl.textContent = `Seed: ${engine.seed}`;
 
     this.initGrid();
+    this.describeBoard();
+    this.input.setEnabled(true);
     this.resetHintTimer();
+    this.onGameStart?.();
+  }
+
+  /** Store the settled game so it can be resumed after a reload. */
+  private saveProgress(): void {
+    saveGame({
+      ...this.engine.snapshot(),
+      seed: this.engine.seed,
+      shape: this.engine.shape,
+      activeColors: this.engine.activeColors,
+      undosLeft: this.undosLeft,
+      replay: this.recorder.toJSON(),
+      scores: this.moveScores,
+      level: this.tracker ? { id: this.tracker.level.id, progress: this.tracker.state } : undefined,
+    });
+  }
+
+  // ─── Level mode ────────────────────────────────────────────────────
+
+  /** Advance a timed level's clock; time running out ends the level once the board settles. */
+  private tickLevel(): void {
+    if (!this.tracker || this.over) return;
+    this.tracker.advanceTime(LEVEL_TICK / 1000);
+    this.hud.render(this.tracker);
+    if (!this.busy) this.checkLevelEnd();
+  }
+
+  /** Run a timed level's clock (no-op in untimed play or while paused). */
+  private startLevelTimer(): void {
+    const tracker = this.tracker;
+    if (this.levelTimer || this.paused || !tracker || tracker.timeLeft === null) return;
+    this.levelTimer = setInterval(() => this.tickLevel(), LEVEL_TICK);
+  }
+
+  private stopLevelTimer(): void {
+    if (this.levelTimer) {
+      clearInterval(this.levelTimer);
+      this.levelTimer = null;
+    }
+  }
+
+  /** End the level if its goals are met or its moves/time are used up. Returns true if it ended. */
+  private checkLevelEnd(): boolean {
+    const tracker = this.tracker;
+    if (!tracker) return false;
+
+    if (tracker.complete) {
+      const index = LEVELS.indexOf(tracker.level);
+      const next = index >= 0 ? LEVELS[index + 1] : undefined;
+      this.endGame({
+        title: "Level Complete!",
+        detail: `${tracker.level.name} — ${this.engine.score} points`,
+        onNext: next ? () => this.restart({ level: next }) : undefined,
+      });
+      return true;
+    }
+    if (tracker.exhausted) {
+      this.audio.play("gameOver");
+      this.endGame({
+        title: tracker.movesLeft === 0 ? "Out of Moves" : "Time's Up",
+        detail: `${tracker.level.name} — goals not reached`,
+      });
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Restart from the log's seed and feed its moves back through the normal
+   * swap path, waiting for each move's timestamp. The player can take over
+   * once playback ends. Throws, leaving the current game alone, if the seed
+   * no longer deals the recorded starting grid.
+   */
+  async playReplay(log: ReplayLog): Promise<void> {
+    if ((this.busy && !this.over) || this.replaying) return;
+    const level = log.level !== undefined ? findLevel(log.level) ?? undefined : undefined;
+    const layout = log.board ? fromBoardFile(log.board) : undefined;
+    // The limit the game was recorded with, so its undos all play back
+    const undoLimit = log.undoLimit ?? UNDO_LIMIT;
+    const setup: GameSetup = { seed: log.seed, shape: log.shape ?? DEFAULT_SHAPE, level, layout, undoLimit };
+    if (JSON.stringify(Board.createEngine(setup).typeGrid()) !== JSON.stringify(log.grid)) {
+      throw new Error("Replay grid does not match its seed");
+    }
+    this.restart(setup);
+
+    this.replaying = true;
+    this.input.setEnabled(false);
+    this.clearHint();
+    // Keep to the recorded timing on the animation clock, so pausing holds the next move back too
+    let elapsed = 0;
+    const stopClock = this.animator.onFrame((dt) => { elapsed += dt; });
+    for (const move of log.moves) {
+      const wait = move.t / 1000 - elapsed;
+      if (wait > 0) await this.animator.wait(wait);
+      if (move.undo) {
+        await this.playUndo();
+      } else {
+        await this.playMove({ a: move.a, b: move.b });
+      }
+      if (this.over) break;
+    }
+    stopClock();
+    this.replaying = false;
+    this.updateUndoButton();
+
+    if (!this.over) {
+      this.saveProgress();
+      this.input.setEnabled(true);
+      this.resetHintTimer();
+    }
+  }
+
+  /** Move the tap-to-swap highlight to the tile at `pos` (or clear it). */
+  private showSelection(pos: GridPosition | null): void {
+    this.selectedTile?.setSelected(false);
+    this.selectedTile = pos ? this.tiles[pos.row][pos.col] : null;
+    this.selectedTile?.setSelected(true);
   }
 
   /** Cancel any active hint blink and clear the timer. */
@@ -67,6 +540,7 @@ export class Board {
       clearTimeout(this.hintTimer);
       this.hintTimer = null;
     }
+    this.hintRemaining = null;
     for (const tile of this.hintTiles) {
       tile.stopBlink();
     }
@@ -76,12 +550,20 @@ export class Board {
   /** Start (or restart) the 5-second idle timer for the hint. */
   private resetHintTimer(): void {
     this.clearHint();
-    this.hintTimer = setTimeout(() => this.showHint(), HINT_DELAY);
+    this.startHintTimer(HINT_DELAY);
+  }
+
+  private startHintTimer(delay: number): void {
+    this.hintDue = performance.now() + delay;
+    this.hintTimer = setTimeout(() => {
+      this.hintTimer = null;
+      this.showHint();
+    }, delay);
   }
 
   /** Find the best move and blink those tiles. */
   private showHint(): void {
-    const move = findValidMove(this.buildMatchableGrid());
+    const move = this.engine.findHint();
     if (!move) return;
 
     const tileA = this.tiles[move.a.row][move.a.col];
@@ -97,472 +579,573 @@ export class Board {
   }
 
   private drawBackground(): void {
-    const bg = new Graphics();
-    bg.roundRect(0, 0, BOARD_WIDTH, BOARD_HEIGHT, 16)
-      .fill({ color: 0x16213e, alpha: 0.8 });
-
-    for (let r = 0; r < GRID_ROWS; r++) {
-      for (let c = 0; c < GRID_COLS; c++) {
+    const bg = this.background;
+    const shape = this.engine.shape;
+    const contrast = this.a11y.highContrast;
+    bg.clear();
+    const { board, tileRadius } = this.theme;
+    bg.roundRect(0, 0, this.width, this.height, 16)
+      .fill(contrast ? { color: 0x000000 } : { color: board.panel, alpha: board.panelAlpha });
+
+    // Cell slots; holes are left as bare panel
+    for (let r = 0; r < shape.rows; r++) {
+      for (let c = 0; c < shape.cols; c++) {
+        if (!isPlayable(shape, r, c)) continue;
         const x = BOARD_PADDING + c * CELL_SIZE;
         const y = BOARD_PADDING + r * CELL_SIZE;
-        bg.roundRect(x, y, TILE_SIZE, TILE_SIZE, TILE_RADIUS)
-          .fill({ color: 0x0f3460, alpha: 0.5 });
+        bg.roundRect(x, y, TILE_SIZE, TILE_SIZE, tileRadius);
+        if (contrast) {
+          bg.fill({ color: 0x1c1c1c }).stroke({ width: 1.5, color: 0xffffff, alpha: 0.6 });
+        } else {
+          bg.fill({ color: board.slot, alpha: board.slotAlpha });
+        }
       }
     }
-
-    this.container.addChild(bg);
   }
 
-  private initGrid(): void {
-    const data = generateGrid(this.score.activeColors);
-    this.grid = data;
-    this.tiles = [];
+  /** Label the screen reader grid with what each cell now holds. */
+  private describeBoard(): void {
+    this.input.describeCells((r, c) => describeCell(this.engine.cellAt(r, c), this.engine.iceAt(r, c)));
+  }
 
-    for (let r = 0; r < GRID_ROWS; r++) {
-      this.tiles[r] = [];
-      for (let c = 0; c < GRID_COLS; c++) {
-        const tile = new Tile(data[r][c], r, c);
-        this.tiles[r][c] = tile;
-        this.tileContainer.addChild(tile.container);
+  /** Frosted panel over each iced cell; thicker ice is more opaque. */
+  private drawIce(): void {
+    const ice = this.iceLayer;
+    ice.clear();
+    for (let r = 0; r < this.engine.shape.rows; r++) {
+      for (let c = 0; c < this.engine.shape.cols; c++) {
+        const layers = this.engine.iceAt(r, c);
+        if (layers === 0) continue;
+        const x = BOARD_PADDING + c * CELL_SIZE - TILE_GAP / 2;
+        const y = BOARD_PADDING + r * CELL_SIZE - TILE_GAP / 2;
+        ice.roundRect(x, y, CELL_SIZE, CELL_SIZE, this.theme.tileRadius)
+          .fill({ color: 0xbfe9ff, alpha: 0.25 + 0.2 * layers })
+          .stroke({ width: 2, color: 0xe8f8ff, alpha: 0.8 });
       }
     }
   }
 
-  /**
-   * Build a grid for matching logic.
-   * All line bombs are kept as TileType.LineBomb so they match each other
-   * regardless of their original base color.
-   */
-  private buildMatchableGrid(): (TileType | null)[][] {
-    const matchGrid: (TileType | null)[][] = [];
-    for (let r = 0; r < GRID_ROWS; r++) {
-      matchGrid[r] = [];
-      for (let c = 0; c < GRID_COLS; c++) {
-        matchGrid[r][c] = this.grid[r][c];
+  private initGrid(): void {
+    this.tiles = [];
+
+    for (let r = 0; r < this.engine.shape.rows; r++) {
+      this.tiles[r] = [];
+      for (let c = 0; c < this.engine.shape.cols; c++) {
+        const cell = this.engine.cellAt(r, c);
+        if (!cell) {
+          this.tiles[r][c] = null;
+          continue;
+        }
+        this.tiles[r][c] = this.pool.acquire(cell, r, c);
       }
     }
-    return matchGrid;
   }
 
   // ─── Main swap handler ─────────────────────────────────────────────
 
   private async onSwapRequest(req: SwapRequest): Promise<void> {
-    if (this.busy) return;
+    if (this.busy || this.replaying) return;
+    await this.playMove(req);
+  }
+
+  /** Resolve a swap in the engine, record it and animate the resulting events. */
+  private async playMove(req: SwapRequest): Promise<void> {
+    const before = this.engine.snapshot();
+    const levelBefore = this.tracker?.state ?? null;
+    const events = this.engine.applySwap(req);
+    if (events.length === 0) return;
+    this.recorder.record(req);
+
+    if (!events.some((e) => e.type === "swapReverted")) {
+      this.undoStack.push({ engine: before, level: levelBefore, scoredMoves: this.moveScores.length });
+      if (this.undoStack.length > this.undosLeft) this.undoStack.shift();
+    }
+    const awards = events.flatMap((e) => (e.type === "scored" ? [{ award: e.award, points: e.points }] : []));
+    if (awards.length > 0) {
+      this.moveScores.push({ move: this.moveScores.length + 1, awards });
+    }
+
     this.busy = true;
     this.input.setEnabled(false);
+    this.updateUndoButton();
     this.clearHint();
+    this.cascadeLevel = 0;
 
-    const { a, b } = req;
-    const tileA = this.tiles[a.row][a.col];
-    const tileB = this.tiles[b.row][b.col];
-    if (!tileA || !tileB) {
-      this.busy = false;
-      this.input.setEnabled(true);
-      return;
+    for (const event of events) {
+      await this.playEvent(event);
     }
 
-    // ── Color Bomb swap ──────────────────────────────────────────────
-    const aIsColorBomb = tileA.tileType === TileType.ColorBomb;
-    const bIsColorBomb = tileB.tileType === TileType.ColorBomb;
-
-    if (aIsColorBomb || bIsColorBomb) {
-      // Animate the swap visually
-      await Promise.all([
-        tileA.animateSwap(b.row, b.col, this.animator, SWAP_DURATION),
-        tileB.animateSwap(a.row, a.col, this.animator, SWAP_DURATION),
-      ]);
-      this.swapInGrid(a, b);
-      this.tiles[a.row][a.col] = tileB;
-      this.tiles[b.row][b.col] = tileA;
-
-      this.score.resetCombo();
-
-      if (aIsColorBomb && bIsColorBomb) {
-        // Two color bombs: clear entire board
-        await this.detonateEntireBoard();
-      } else {
-        // One color bomb + one regular/line bomb tile
-        const bombPos = aIsColorBomb ? b : a;
-        const otherPos = aIsColorBomb ? a : b;
-        const otherTile = this.tiles[otherPos.row][otherPos.col]!;
-        const targetType = otherTile.tileType;
-
-        if (targetType === TileType.LineBomb) {
-          // Color bomb + line bomb: destroy both
-          await this.destroySingleTile(bombPos);
-          await this.destroySingleTile(otherPos);
-        } else {
-          // Fire laser from bomb position and destroy all tiles of the target color
-          await this.detonateColorBomb(targetType, bombPos);
-          // Then destroy the color bomb itself
-          await this.destroySingleTile(bombPos);
-        }
-      }
-
-      await this.cascade();
-      await this.fillEmpty();
+    if (this.over) return;
 
-      // Chain matches after color bomb
-      const newMatches = findMatches(this.buildMatchableGrid());
-      if (newMatches.length > 0) {
-        await this.processMatches(newMatches, null);
-      }
-
-      if (!hasValidMoves(this.buildMatchableGrid())) {
-        this.showGameOver();
-        return;
-      }
+    this.announcer.flush(this.engine.score > before.score ? `Score ${this.engine.score}` : undefined);
+    this.settle();
+  }
 
-      this.busy = false;
-      this.input.setEnabled(true);
-      this.resetHintTimer();
+  /** Leave the busy state after a move or undo has finished animating. */
+  private settle(): void {
+    this.busy = false;
+    this.describeBoard();
+    if (this.pendingRestart) {
+      this.restart(this.pendingRestart);
       return;
     }
-
-    // ── Normal swap ──────────────────────────────────────────────────
-    await Promise.all([
-      tileA.animateSwap(b.row, b.col, this.animator, SWAP_DURATION),
-      tileB.animateSwap(a.row, a.col, this.animator, SWAP_DURATION),
-    ]);
-
-    this.swapInGrid(a, b);
-    this.tiles[a.row][a.col] = tileB;
-    this.tiles[b.row][b.col] = tileA;
-
-    const matches = findMatches(this.buildMatchableGrid());
-    if (matches.length === 0) {
-      // Invalid move — swap back
-      await Promise.all([
-        tileA.animateSwap(a.row, a.col, this.animator, SWAP_DURATION),
-        tileB.animateSwap(b.row, b.col, this.animator, SWAP_DURATION),
-      ]);
-      this.swapInGrid(a, b);
-      this.tiles[a.row][a.col] = tileA;
-      this.tiles[b.row][b.col] = tileB;
-    } else {
-      this.score.resetCombo();
-      // Pass both swap positions so bonus tiles spawn at the player's swap position
-      this.lastSwapPos = b; // "b" is where the player dragged to
-      await this.processMatches(matches, { a, b });
-      this.lastSwapPos = null;
+    if (this.checkLevelEnd()) return;
+    this.updateUndoButton();
+    if (!this.replaying) {
+      this.saveProgress();
+      this.input.setEnabled(!this.paused);
+      this.resetHintTimer();
     }
+  }
 
-    if (!hasValidMoves(this.buildMatchableGrid())) {
-      this.showGameOver();
-      return;
-    }
+  // ─── Undo ──────────────────────────────────────────────────────────
 
-    this.busy = false;
-    this.input.setEnabled(true);
-    this.resetHintTimer();
+  /** Change how many undos a game allows, from the next game on; the game in progress keeps its count. */
+  setUndoLimit(limit: number): void {
+    this.undoLimit = limit;
   }
 
-  private swapInGrid(a: GridPosition, b: GridPosition): void {
-    const tmp = this.grid[a.row][a.col];
-    this.grid[a.row][a.col] = this.grid[b.row][b.col];
-    this.grid[b.row][b.col] = tmp;
+  /** Take back the last valid swap, if any undos remain. Ignored while busy. */
+  async undo(): Promise<void> {
+    if (this.replaying || this.paused) return;
+    await this.playUndo();
   }
 
-  // ─── Process matches (with bonus spawning) ─────────────────────────
+  private async playUndo(): Promise<void> {
+    if (!this.canUndo()) return;
+    this.recorder.recordUndo();
 
-  private async processMatches(
-    matches: MatchGroup[],
-    swapPositions: { a: GridPosition; b: GridPosition } | null,
-  ): Promise<void> {
-    // Collect all positions to destroy (de-duped)
-    const destroySet = new Set<string>();
-    const allPositions: GridPosition[] = [];
-    for (const m of matches) {
-      for (const p of m.positions) {
-        const k = `${p.row},${p.col}`;
-        if (!destroySet.has(k)) {
-          destroySet.add(k);
-          allPositions.push(p);
-        }
-      }
+    this.busy = true;
+    this.input.setEnabled(false);
+    this.clearHint();
+
+    const entry = this.undoStack.pop()!;
+    this.engine.restore(entry.engine);
+    this.moveScores.length = entry.scoredMoves;
+    if (this.tracker && entry.level) {
+      // Goals and moves go back; the clock keeps running
+      this.tracker = new LevelTracker(this.tracker.level, { ...entry.level, timeLeft: this.tracker.timeLeft });
+      this.hud.render(this.tracker);
     }
+    this.undosLeft--;
+    this.updateUndoButton();
+    this.announcer.say(`Move undone. Score ${this.engine.score}`);
+    this.score.setScore(this.engine.score);
+    await this.syncTiles(UNDO_DURATION);
 
-    // Determine bonus tiles to spawn BEFORE destroying
-    const bonuses = this.determineBonuses(matches, swapPositions);
+    this.settle();
+  }
 
-    // Award score
-    this.score.addMatch(allPositions.length);
+  private canUndo(): boolean {
+    return !this.busy && this.undosLeft > 0 && this.undoStack.length > 0;
+  }
+
+  private updateUndoButton(): void {
+    this.undoButton.textContent = `Undo (${this.undosLeft})`;
+    this.undoButton.disabled = this.replaying || this.paused || !this.canUndo();
+  }
 
-    // Animate destruction (skip bonus positions and line bombs — bombs detonate separately)
-    const bonusPosKeys = new Set(bonuses.map((b) => `${b.row},${b.col}`));
+  /**
+   * Bring the tile views in line with the engine after a restore.
+   * Unchanged cells keep their tile; changed ones shrink out while the
+   * restored tile grows in.
+   */
+  private async syncTiles(duration: number): Promise<void> {
+    const promises: Promise<void>[] = [];
 
-    const destroyPromises: Promise<void>[] = [];
-    const triggeredBombs: GridPosition[] = [];
+    for (let r = 0; r < this.engine.shape.rows; r++) {
+      for (let c = 0; c < this.engine.shape.cols; c++) {
+        const cell = this.engine.cellAt(r, c);
+        const old = this.tiles[r][c];
+        if (old && cell && old.tileType === cell.type
+          && old.bonusOrientation === cell.orientation && old.baseType === cell.baseType
+          && old.locked === (cell.locked === true)) {
+          continue;
+        }
 
-    for (const pos of allPositions) {
-      const tile = this.tiles[pos.row][pos.col];
-      if (!tile) continue;
+        if (old) {
+          promises.push(
+            old.animateDestroy(this.animator, duration)
+              .then(() => { this.pool.release(old); }),
+          );
+        }
 
-      // Line bombs in a match are detonated separately
-      if (tile.tileType === TileType.LineBomb) {
-        triggeredBombs.push({ row: pos.row, col: pos.col });
-        continue;
+        this.tiles[r][c] = null;
+        if (cell) {
+          const tile = this.pool.acquire(cell, r, c);
+          this.tiles[r][c] = tile;
+          promises.push(tile.animateSpawn(this.animator, duration));
+        }
       }
+    }
 
-      // Skip destruction animation if a bonus tile will replace this cell
-      if (bonusPosKeys.has(`${pos.row},${pos.col}`)) continue;
+    this.drawIce();
+    await Promise.all(promises);
+  }
 
-      destroyPromises.push(tile.animateDestroy(this.animator, DESTROY_DURATION));
+  /** Animate one engine event and bring `tiles` in line with it. */
+  private async playEvent(event: GameEvent): Promise<void> {
+    this.announcer.note(event);
+    if (this.tracker) {
+      this.tracker.handle(event);
+      this.hud.render(this.tracker);
     }
 
-    // Run bomb detonations in parallel with regular tile destruction
-    for (const bp of triggeredBombs) {
-      if (!this.tiles[bp.row][bp.col]) continue;
-      destroyPromises.push(this.detonateLineBomb(bp));
+    switch (event.type) {
+      case "swapped":
+      case "swapReverted":
+        this.audio.play(event.type === "swapped" ? "swap" : "invalid");
+        await this.playSwap(event.a, event.b);
+        break;
+      case "matched":
+        this.audio.play("match", this.cascadeLevel);
+        await this.destroyTiles(event.destroyed);
+        break;
+      case "bonusSpawned":
+        await this.spawnBonus(event.pos, event.cell);
+        break;
+      case "bombDetonated":
+        if (event.bomb === "line") {
+          await this.playLineBomb(event.pos, event.orientation, event.targets);
+        } else if (event.bomb === "color") {
+          await this.playColorBomb(event.pos, event.targetType, event.targets);
+        } else if (event.bomb === "area") {
+          await this.playAreaBomb(event.pos, event.radius, event.targets);
+        } else if (event.bomb === "cross") {
+          await this.playCross(event.pos, event.width, event.targets);
+        } else {
+          await Promise.all([this.showBoardFlash(), this.destroyTiles(event.targets)]);
+        }
+        break;
+      case "bombsCombined":
+        await this.playCombine(event.a, event.b);
+        break;
+      case "bombsConverted":
+        await this.playConversion(event.source, event.bombs);
+        break;
+      case "destroyed":
+        await this.destroyTiles([event.pos]);
+        break;
+      case "fell":
+        await this.cascade(event.moves);
+        break;
+      case "spawned":
+        await this.fillEmpty(event.spawns);
+        break;
+      case "scored":
+        if (event.award.kind === "cascade") this.cascadeLevel = event.award.level;
+        this.score.setScore(event.total);
+        void this.showScorePopup(event.pos, event.points);
+        break;
+      case "iceCracked":
+        this.drawIce();
+        break;
+      case "stonesBroken":
+        await this.destroyTiles(event.stones);
+        break;
+      case "unlocked":
+        for (const pos of event.positions) {
+          const tile = this.tiles[pos.row][pos.col];
+          if (!tile) continue;
+          tile.locked = false;
+          tile.redraw();
+        }
+        break;
+      case "shuffled":
+        await this.playShuffle(event.moves);
+        break;
+      case "gameOver":
+        if (!this.checkLevelEnd()) this.showGameOver();
+        break;
     }
+  }
 
-    await Promise.all(destroyPromises);
+  /** Swap the tiles at `a` and `b` (also used to swap an invalid move back). */
+  private async playSwap(a: GridPosition, b: GridPosition): Promise<void> {
+    const tileA = this.tiles[a.row][a.col]!;
+    const tileB = this.tiles[b.row][b.col]!;
+    await Promise.all([
+      tileA.animateSwap(b.row, b.col, this.animator, this.swapDuration),
+      tileB.animateSwap(a.row, a.col, this.animator, this.swapDuration),
+    ]);
+    this.tiles[a.row][a.col] = tileB;
+    this.tiles[b.row][b.col] = tileA;
+  }
 
-    // Remove destroyed tiles from both arrays (except bonus positions)
-    for (const pos of allPositions) {
-      if (bonusPosKeys.has(`${pos.row},${pos.col}`)) continue;
+  /** Animate destruction of the tiles at `positions` together, throwing off shards, then remove them. */
+  private async destroyTiles(positions: GridPosition[]): Promise<void> {
+    const tiles: Tile[] = [];
+    for (const pos of positions) {
       const tile = this.tiles[pos.row][pos.col];
-      if (!tile) continue; // already removed by bomb detonation
-      if (tile.tileType === TileType.LineBomb) continue; // already handled by detonation
-      this.tileContainer.removeChild(tile.container);
+      if (!tile) continue;
+      tiles.push(tile);
       this.tiles[pos.row][pos.col] = null;
-      this.grid[pos.row][pos.col] = null;
+      const color = tile.baseColor ?? this.palette[tile.tileType] ?? this.theme.effects.core;
+      this.particles.shards({ x: tile.container.x, y: tile.container.y }, color);
     }
-
-    // Spawn bonus tiles in-place
-    for (const bonus of bonuses) {
-      const existing = this.tiles[bonus.row][bonus.col];
-      if (existing) {
-        this.tileContainer.removeChild(existing.container);
-      }
-      const tile = new Tile(bonus.type, bonus.row, bonus.col);
-      if (bonus.type === TileType.LineBomb) {
-        tile.bonusOrientation = bonus.orientation;
-        tile.baseColor = bonus.baseColor;
-        tile.baseType = bonus.baseType;
-        tile.redraw();
-      }
-      this.tiles[bonus.row][bonus.col] = tile;
-      this.grid[bonus.row][bonus.col] = bonus.type;
-      this.tileContainer.addChild(tile.container);
-      await tile.animateSpawn(this.animator, SPAWN_DURATION);
-    }
-
-    // Cascade and fill
-    await this.cascade();
-    await this.fillEmpty();
-
-    // Chain matches (no swap positions for cascaded matches)
-    const newMatches = findMatches(this.buildMatchableGrid());
-    if (newMatches.length > 0) {
-      await this.processMatches(newMatches, null);
+    await Promise.all(tiles.map((t) => t.animateDestroy(this.animator, DESTROY_DURATION)));
+    for (const tile of tiles) {
+      this.pool.release(tile);
     }
   }
 
-  // ─── Determine which bonuses to spawn ──────────────────────────────
-
-  private determineBonuses(
-    matches: MatchGroup[],
-    swapPositions: { a: GridPosition; b: GridPosition } | null,
-  ): { row: number; col: number; type: TileType; orientation?: BonusOrientation; baseColor?: number; baseType?: TileType }[] {
-    const bonuses: { row: number; col: number; type: TileType; orientation?: BonusOrientation; baseColor?: number; baseType?: TileType }[] = [];
-    const usedPositions = new Set<string>();
-
-    for (const match of matches) {
-      if (match.length < LINE_BOMB_MATCH) continue;
-
-      const spawnPos = this.pickBonusPosition(match, swapPositions, usedPositions);
-      if (!spawnPos) continue;
-      usedPositions.add(`${spawnPos.row},${spawnPos.col}`);
-
-      // Determine the base color from the match (line bombs use their baseType)
-      const samplePos = match.positions[0];
-      const sampleTile = this.tiles[samplePos.row][samplePos.col];
-      const sampleType: TileType = (sampleTile?.tileType === TileType.LineBomb && sampleTile.baseType !== undefined)
-        ? sampleTile.baseType
-        : this.grid[samplePos.row][samplePos.col] as TileType;
-      const baseColor = TILE_COLORS[sampleType] ?? 0x888888;
-
-      if (match.length >= COLOR_BOMB_MATCH) {
-        bonuses.push({ row: spawnPos.row, col: spawnPos.col, type: TileType.ColorBomb });
-      } else {
-        // match.length === 4 → Line Bomb
-        bonuses.push({
-          row: spawnPos.row,
-          col: spawnPos.col,
-          type: TileType.LineBomb,
-          orientation: match.direction,
-          baseColor,
-          baseType: sampleType,
-        });
-      }
+  /** Replace whatever is at `pos` with a freshly created bonus tile. */
+  private async spawnBonus(pos: GridPosition, cell: CellState): Promise<void> {
+    const existing = this.tiles[pos.row][pos.col];
+    if (existing) {
+      this.pool.release(existing);
     }
-
-    return bonuses;
+    const tile = this.pool.acquire(cell, pos.row, pos.col);
+    this.tiles[pos.row][pos.col] = tile;
+    await tile.animateSpawn(this.animator, BOMB_SPAWN_DURATION, "elasticOut");
   }
 
-  /**
-   * Pick the grid position where a bonus tile should appear.
-   * Prefers the player's swap destination if it's part of this match;
-   * otherwise falls back to the swap origin, then the middle of the run.
-   */
-  private pickBonusPosition(
-    match: MatchGroup,
-    swapPositions: { a: GridPosition; b: GridPosition } | null,
-    usedPositions: Set<string>,
-  ): GridPosition | null {
-    const inMatch = (p: GridPosition) =>
-      match.positions.some((mp) => mp.row === p.row && mp.col === p.col);
-    const notUsed = (p: GridPosition) => !usedPositions.has(`${p.row},${p.col}`);
-
-    if (swapPositions) {
-      // Prefer swap destination (b)
-      if (inMatch(swapPositions.b) && notUsed(swapPositions.b)) return swapPositions.b;
-      // Then swap origin (a)
-      if (inMatch(swapPositions.a) && notUsed(swapPositions.a)) return swapPositions.a;
-    }
-
-    // Fallback: middle of the run
-    const mid = Math.floor(match.positions.length / 2);
-    for (let offset = 0; offset < match.positions.length; offset++) {
-      const idx = (mid + offset) % match.positions.length;
-      if (notUsed(match.positions[idx])) return match.positions[idx];
-    }
+  // ─── Bomb effects ──────────────────────────────────────────────────
 
-    return null;
+  /** Destroy the line bomb, then sweep its beam across the cleared targets. */
+  private async playLineBomb(
+    pos: GridPosition,
+    orientation: BonusOrientation,
+    targets: GridPosition[],
+  ): Promise<void> {
+    const explosionColor = this.tiles[pos.row][pos.col]?.baseColor ?? this.theme.effects.core;
+    await this.destroyTiles([pos]);
+    this.audio.play("beam");
+    await Promise.all([
+      this.showLineBombExplosion(pos, orientation, explosionColor),
+      this.destroyTiles(targets),
+    ]);
   }
 
-  // ─── Bomb detonation ───────────────────────────────────────────────
-
-  /**
-   * Detonate a Line Bomb at `pos`, clearing its entire row or column.
-   * If other bombs are hit, they chain-detonate.
-   */
-  private async detonateLineBomb(pos: GridPosition): Promise<void> {
-    const tile = this.tiles[pos.row][pos.col];
-    if (!tile) return;
-
-    const orientation = tile.bonusOrientation ?? "horizontal";
-
-    // Destroy the bomb tile itself
-    await tile.animateDestroy(this.animator, DESTROY_DURATION);
-    this.tileContainer.removeChild(tile.container);
-    this.tiles[pos.row][pos.col] = null;
-    this.grid[pos.row][pos.col] = null;
-
-    this.score.addMatch(LINE_BOMB_BONUS);
+  /** Destroy the area bomb, then flash its blast square while the block clears. */
+  private async playAreaBomb(pos: GridPosition, radius: number, targets: GridPosition[]): Promise<void> {
+    const color = this.tiles[pos.row][pos.col]?.baseColor ?? this.theme.effects.core;
+    await this.destroyTiles([pos]);
+    await Promise.all([
+      this.showAreaExplosion(pos, radius, color),
+      this.destroyTiles(targets),
+    ]);
+  }
 
-    // Collect tiles in the line
-    const targets: GridPosition[] = [];
-    if (orientation === "horizontal") {
-      for (let c = 0; c < GRID_COLS; c++) {
-        if (c === pos.col) continue; // already removed
-        if (this.tiles[pos.row][c]) targets.push({ row: pos.row, col: c });
+  /** Sweep beams along every cleared row and column of a cross blast. */
+  private async playCross(pos: GridPosition, width: number, targets: GridPosition[]): Promise<void> {
+    const color = this.tiles[pos.row][pos.col]?.baseColor ?? this.theme.effects.core;
+    await this.destroyTiles([pos]);
+    this.audio.play("beam");
+
+    const beams: Promise<void>[] = [];
+    const half = Math.floor(width / 2);
+    for (let d = -half; d <= half; d++) {
+      if (pos.row + d >= 0 && pos.row + d < this.engine.shape.rows) {
+        beams.push(this.showLineBombExplosion({ row: pos.row + d, col: pos.col }, "horizontal", color));
       }
-    } else {
-      for (let r = 0; r < GRID_ROWS; r++) {
-        if (r === pos.row) continue;
-        if (this.tiles[r][pos.col]) targets.push({ row: r, col: pos.col });
+      if (pos.col + d >= 0 && pos.col + d < this.engine.shape.cols) {
+        beams.push(this.showLineBombExplosion({ row: pos.row, col: pos.col + d }, "vertical", color));
       }
     }
+    await Promise.all([...beams, this.destroyTiles(targets)]);
+  }
 
-    // Find chained bombs before destroying
-    const chainedBombs: GridPosition[] = [];
-    for (const t of targets) {
-      const tt = this.tiles[t.row][t.col];
-      if (tt && (tt.tileType === TileType.LineBomb || tt.tileType === TileType.ColorBomb)) {
-        chainedBombs.push({ row: t.row, col: t.col });
-      }
-    }
+  /** Slide the bomb at `a` onto the one at `b`, which swells as they merge. */
+  private async playCombine(a: GridPosition, b: GridPosition): Promise<void> {
+    const moving = this.tiles[a.row][a.col];
+    const target = this.tiles[b.row][b.col];
+    if (!moving || !target) return;
+    const scale = target.container.scale as unknown as Record<string, number>;
+    await this.animator.timeline()
+      .to(
+        moving.container.position as unknown as Record<string, number>,
+        { x: Tile.pixelX(b.col), y: Tile.pixelY(b.row) },
+        COMBINE_DURATION,
+      )
+      .with(scale, { x: 1.3, y: 1.3 }, COMBINE_DURATION)
+      .to(scale, { x: 1, y: 1 }, COMBINE_DURATION / 2, { ease: "backOut" })
+      .play();
+  }
 
-    // Animate destruction of all targets, concurrently with explosion beam
-    const explosionColor = tile.baseColor ?? 0xffffff;
-    const promises: Promise<void>[] = [
-      this.showLineBombExplosion(pos, orientation, explosionColor),
-    ];
-    for (const t of targets) {
-      const tt = this.tiles[t.row][t.col];
-      if (tt && tt.tileType !== TileType.LineBomb && tt.tileType !== TileType.ColorBomb) {
-        promises.push(tt.animateDestroy(this.animator, DESTROY_DURATION));
-      }
+  /** Fire lasers from the color bomb to each converted tile and swap in the new bomb tiles. */
+  private async playConversion(
+    source: GridPosition,
+    bombs: (GridPosition & { cell: CellState })[],
+  ): Promise<void> {
+    this.audio.play("laser");
+    if (this.a11y.reducedMotion) {
+      await Promise.all(bombs.map((bomb) => this.spawnBonus(bomb, bomb.cell)));
+      return;
     }
-    await Promise.all(promises);
 
-    // Remove non-bomb targets
-    for (const t of targets) {
-      const tt = this.tiles[t.row][t.col];
-      if (tt && tt.tileType !== TileType.LineBomb && tt.tileType !== TileType.ColorBomb) {
-        this.tileContainer.removeChild(tt.container);
-        this.tiles[t.row][t.col] = null;
-        this.grid[t.row][t.col] = null;
-      }
-    }
+    const baseType = bombs[0].cell.baseType;
+    const color = baseType !== undefined ? this.palette[baseType] : this.theme.effects.core;
+    const laserGfx = this.createLaserBeams(source, bombs, color);
+    laserGfx.alpha = 0;
+    this.tileContainer.addChild(laserGfx);
+    const laser = laserGfx as unknown as Record<string, number>;
+    await this.animator.timeline()
+      .to(laser, { alpha: 1 }, LASER_DURATION)
+      .add(() => Promise.all(bombs.map((bomb) => this.spawnBonus(bomb, bomb.cell))))
+      .to(laser, { alpha: 0 }, LASER_DURATION)
+      .play();
+    this.tileContainer.removeChild(laserGfx);
+    laserGfx.destroy();
+  }
 
-    // Chain-detonate any bombs hit
-    for (const bp of chainedBombs) {
-      if (!this.tiles[bp.row][bp.col]) continue;
-      if (this.tiles[bp.row][bp.col]!.tileType === TileType.LineBomb) {
-        await this.detonateLineBomb(bp);
-      } else if (this.tiles[bp.row][bp.col]!.tileType === TileType.ColorBomb) {
-        // Pick a random color to clear
-        const randomColor = this.pickRandomColorOnBoard();
-        if (randomColor !== null) {
-          await this.detonateColorBomb(randomColor, bp);
-        }
-        await this.destroySingleTile(bp);
-      }
+  /** Fire laser beams from the color bomb to every target and destroy them. */
+  private async playColorBomb(
+    sourcePos: GridPosition,
+    targetType: TileType,
+    targets: GridPosition[],
+  ): Promise<void> {
+    this.audio.play("laser");
+    if (this.a11y.reducedMotion) {
+      await this.destroyTiles(targets);
+      return;
     }
+
+    const color = this.palette[targetType];
+    this.particles.burst({ x: Tile.pixelX(sourcePos.col), y: Tile.pixelY(sourcePos.row) }, color);
+    const laserGfx = this.createLaserBeams(sourcePos, targets, color);
+    laserGfx.alpha = 0;
+    this.tileContainer.addChild(laserGfx);
+    const laser = laserGfx as unknown as Record<string, number>;
+    await this.animator.timeline()
+      .to(laser, { alpha: 1 }, LASER_DURATION)
+      .add(() => this.destroyTiles(targets))
+      .to(laser, { alpha: 0 }, LASER_DURATION)
+      .play();
+    this.tileContainer.removeChild(laserGfx);
+    laserGfx.destroy();
   }
 
   /**
    * Show a glowing explosion beam along the line bomb's cleared row or column.
    * Runs concurrently with tile destruction for a punch-through feel.
+   * Skipped with reduced motion.
    */
   private async showLineBombExplosion(
     pos: GridPosition,
     orientation: BonusOrientation,
     color: number,
   ): Promise<void> {
+    if (this.a11y.reducedMotion) return;
     const gfx = new Graphics();
     const bx = Tile.pixelX(pos.col);
     const by = Tile.pixelY(pos.row);
+    const core = this.theme.effects.core;
 
     if (orientation === "horizontal") {
       const x0 = Tile.pixelX(0);
-      const x1 = Tile.pixelX(GRID_COLS - 1);
+      const x1 = Tile.pixelX(this.engine.shape.cols - 1);
       // Outer glow
       gfx.moveTo(x0, by).lineTo(x1, by).stroke({ width: 28, color, alpha: 0.22 });
       // Mid glow
       gfx.moveTo(x0, by).lineTo(x1, by).stroke({ width: 14, color, alpha: 0.5 });
       // Core beam
-      gfx.moveTo(x0, by).lineTo(x1, by).stroke({ width: 5, color: 0xffffff, alpha: 0.95 });
+      gfx.moveTo(x0, by).lineTo(x1, by).stroke({ width: 5, color: core, alpha: 0.95 });
     } else {
       const y0 = Tile.pixelY(0);
-      const y1 = Tile.pixelY(GRID_ROWS - 1);
+      const y1 = Tile.pixelY(this.engine.shape.rows - 1);
       gfx.moveTo(bx, y0).lineTo(bx, y1).stroke({ width: 28, color, alpha: 0.22 });
       gfx.moveTo(bx, y0).lineTo(bx, y1).stroke({ width: 14, color, alpha: 0.5 });
-      gfx.moveTo(bx, y0).lineTo(bx, y1).stroke({ width: 5, color: 0xffffff, alpha: 0.95 });
+      gfx.moveTo(bx, y0).lineTo(bx, y1).stroke({ width: 5, color: core, alpha: 0.95 });
     }
 
     // Burst circle at the bomb center
-    gfx.circle(bx, by, TILE_SIZE * 0.65).fill({ color: 0xffffff, alpha: 0.85 });
+    gfx.circle(bx, by, TILE_SIZE * 0.65).fill({ color: core, alpha: 0.85 });
     gfx.circle(bx, by, TILE_SIZE * 0.42).fill({ color, alpha: 0.9 });
 
+    if (orientation === "horizontal") {
+      this.particles.sparks({ x: Tile.pixelX(0), y: by }, { x: Tile.pixelX(this.engine.shape.cols - 1), y: by }, color);
+    } else {
+      this.particles.sparks({ x: bx, y: Tile.pixelY(0) }, { x: bx, y: Tile.pixelY(this.engine.shape.rows - 1) }, color);
+    }
+
     gfx.alpha = 0;
     this.tileContainer.addChild(gfx);
 
-    await this.animator.animate(
-      gfx as unknown as Record<string, number>,
-      { alpha: 1 },
-      LASER_DURATION,
-    );
-    await this.animator.animate(
-      gfx as unknown as Record<string, number>,
-      { alpha: 0 },
-      LASER_DURATION * 1.5,
-    );
+    await this.animator.timeline()
+      .to(gfx as unknown as Record<string, number>, { alpha: 1 }, LASER_DURATION)
+      .to(gfx as unknown as Record<string, number>, { alpha: 0 }, LASER_DURATION * 1.5, { ease: "quadIn" })
+      .play();
+
+    this.tileContainer.removeChild(gfx);
+    gfx.destroy();
+  }
+
+  /** Flash a glowing square over the cells an area bomb cleared, with a ring at its centre. */
+  private async showAreaExplosion(pos: GridPosition, radius: number, color: number): Promise<void> {
+    if (this.a11y.reducedMotion) return;
+    const gfx = new Graphics();
+    const bx = Tile.pixelX(pos.col);
+    const by = Tile.pixelY(pos.row);
+    const size = CELL_SIZE * (radius * 2 + 1);
+
+    const core = this.theme.effects.core;
+    gfx.roundRect(bx - size / 2, by - size / 2, size, size, this.theme.tileRadius * 2)
+      .fill({ color, alpha: 0.35 })
+      .stroke({ width: 4, color: core, alpha: 0.9 });
+    gfx.circle(bx, by, TILE_SIZE * 0.7).fill({ color: core, alpha: 0.85 });
+    gfx.circle(bx, by, TILE_SIZE * 0.45).fill({ color, alpha: 0.9 });
+
+    gfx.alpha = 0;
+    this.tileContainer.addChild(gfx);
+
+    await this.animator.timeline()
+      .to(gfx as unknown as Record<string, number>, { alpha: 1 }, LASER_DURATION)
+      .to(gfx as unknown as Record<string, number>, { alpha: 0 }, LASER_DURATION * 1.5, { ease: "quadIn" })
+      .play();
 
     this.tileContainer.removeChild(gfx);
+    gfx.destroy();
+  }
+
+  /** Float a "+points" label up from a cell and fade it out; doesn't hold up the move. */
+  private async showScorePopup(pos: GridPosition, points: number): Promise<void> {
+    const popup = new Text({
+      text: `+${points}`,
+      style: {
+        fill: this.theme.effects.highlight,
+        fontSize: 22,
+        fontWeight: "800",
+        stroke: { color: this.theme.effects.textStroke, width: 4 },
+      },
+    });
+    popup.anchor.set(0.5);
+    popup.position.set(Tile.pixelX(pos.col), Tile.pixelY(pos.row));
+    this.container.addChild(popup);
+
+    await Promise.all([
+      this.animator.animate(
+        popup.position as unknown as Record<string, number>,
+        { y: popup.y - CELL_SIZE * 0.8 },
+        SCORE_POPUP_DURATION,
+      ),
+      this.animator.animate(
+        popup as unknown as Record<string, number>,
+        { alpha: 0 },
+        SCORE_POPUP_DURATION,
+      ),
+    ]);
+    this.container.removeChild(popup);
+    popup.destroy();
+  }
+
+  /** White flash and a screen shake over the whole board, for two color bombs clearing everything (not with reduced motion). */
+  private async showBoardFlash(): Promise<void> {
+    this.audio.play("boardClear");
+    if (this.a11y.reducedMotion) return;
+    this.particles.shake(TILE_SIZE * 0.2, SCREEN_SHAKE_DURATION);
+    const gfx = new Graphics();
+    gfx.roundRect(0, 0, this.width, this.height, 16).fill({ color: this.theme.effects.core });
+    gfx.alpha = 0;
+    this.container.addChild(gfx);
+
+    await this.animator.timeline()
+      .to(gfx as unknown as Record<string, number>, { alpha: 0.8 }, LASER_DURATION)
+      .to(gfx as unknown as Record<string, number>, { alpha: 0 }, LASER_DURATION * 2, { ease: "quadIn" })
+      .play();
+
+    this.container.removeChild(gfx);
+    gfx.destroy();
   }
 
   /** Create laser beam graphics from a source position to all targets. */
@@ -584,7 +1167,7 @@ export class Board {
         .stroke({ width: 8, color, alpha: 0.3 });
       // Core beam
       gfx.moveTo(sx, sy).lineTo(tx, ty)
-        .stroke({ width: 3, color: 0xffffff, alpha: 0.9 });
+        .stroke({ width: 3, color: this.theme.effects.core, alpha: 0.9 });
       // Impact dot at target
       gfx.circle(tx, ty, 6)
         .fill({ color, alpha: 0.5 });
@@ -592,240 +1175,105 @@ export class Board {
 
     // Source flash
     gfx.circle(sx, sy, 10)
-      .fill({ color: 0xffffff, alpha: 0.7 });
+      .fill({ color: this.theme.effects.core, alpha: 0.7 });
 
     return gfx;
   }
 
-  /**
-   * Detonate a Color Bomb: destroy all tiles of `targetType` on the board.
-   * If any of those tiles are bombs, chain-detonate them.
-   */
-  private async detonateColorBomb(targetType: TileType, sourcePos?: GridPosition): Promise<void> {
-    const targets: GridPosition[] = [];
-    for (let r = 0; r < GRID_ROWS; r++) {
-      for (let c = 0; c < GRID_COLS; c++) {
-        if (this.grid[r][c] === targetType && this.tiles[r][c]) {
-          targets.push({ row: r, col: c });
-        }
-      }
-    }
-
-    if (targets.length === 0) return;
+  // ─── Cascade & fill ────────────────────────────────────────────────
 
-    // Fire laser beams from source to all targets
-    let laserGfx: Graphics | null = null;
-    if (sourcePos) {
-      laserGfx = this.createLaserBeams(sourcePos, targets, TILE_COLORS[targetType]);
-      laserGfx.alpha = 0;
-      this.tileContainer.addChild(laserGfx);
-      await this.animator.animate(
-        laserGfx as unknown as Record<string, number>,
-        { alpha: 1 },
-        LASER_DURATION,
-      );
-    }
-
-    this.score.addMatch(targets.length + COLOR_BOMB_BONUS);
-
-    // Find chained bombs
-    const chainedBombs: GridPosition[] = [];
-    for (const t of targets) {
-      const tile = this.tiles[t.row][t.col];
-      if (tile && (tile.tileType === TileType.LineBomb || tile.tileType === TileType.ColorBomb)) {
-        chainedBombs.push({ row: t.row, col: t.col });
-      }
-    }
-
-    // Destroy non-bomb targets
-    const promises: Promise<void>[] = [];
-    for (const t of targets) {
-      const tile = this.tiles[t.row][t.col];
-      if (tile && tile.tileType !== TileType.LineBomb && tile.tileType !== TileType.ColorBomb) {
-        promises.push(tile.animateDestroy(this.animator, DESTROY_DURATION));
-      }
-    }
-    await Promise.all(promises);
+  private async cascade(moves: FallMove[]): Promise<void> {
+    const fallPromises: Promise<void>[] = [];
 
-    for (const t of targets) {
-      const tile = this.tiles[t.row][t.col];
-      if (tile && tile.tileType !== TileType.LineBomb && tile.tileType !== TileType.ColorBomb) {
-        this.tileContainer.removeChild(tile.container);
-        this.tiles[t.row][t.col] = null;
-        this.grid[t.row][t.col] = null;
-      }
-    }
+    // Moves are ordered bottom-up per column, so targets are always free
+    for (const m of moves) {
+      const tile = this.tiles[m.fromRow][m.col]!;
+      this.tiles[m.toRow][m.col] = tile;
+      this.tiles[m.fromRow][m.col] = null;
 
-    // Fade and remove laser beams
-    if (laserGfx) {
-      await this.animator.animate(
-        laserGfx as unknown as Record<string, number>,
-        { alpha: 0 },
-        LASER_DURATION,
+      tile.gridRow = m.toRow;
+      tile.gridCol = m.col;
+      fallPromises.push(
+        tile.animateFall(m.toRow, this.animator, this.fallDuration * (m.toRow - m.fromRow)),
       );
-      this.tileContainer.removeChild(laserGfx);
-    }
-
-    // Chain detonate
-    for (const bp of chainedBombs) {
-      if (!this.tiles[bp.row][bp.col]) continue;
-      if (this.tiles[bp.row][bp.col]!.tileType === TileType.LineBomb) {
-        await this.detonateLineBomb(bp);
-      } else if (this.tiles[bp.row][bp.col]!.tileType === TileType.ColorBomb) {
-        const randomColor = this.pickRandomColorOnBoard();
-        if (randomColor !== null) {
-          await this.detonateColorBomb(randomColor, bp);
-        }
-        await this.destroySingleTile(bp);
-      }
-    }
-  }
-
-  /** Destroy every tile on the board (two Color Bombs swapped together). */
-  private async detonateEntireBoard(): Promise<void> {
-    const promises: Promise<void>[] = [];
-    for (let r = 0; r < GRID_ROWS; r++) {
-      for (let c = 0; c < GRID_COLS; c++) {
-        const tile = this.tiles[r][c];
-        if (tile) {
-          promises.push(tile.animateDestroy(this.animator, DESTROY_DURATION));
-        }
-      }
-    }
-    await Promise.all(promises);
-
-    let count = 0;
-    for (let r = 0; r < GRID_ROWS; r++) {
-      for (let c = 0; c < GRID_COLS; c++) {
-        const tile = this.tiles[r][c];
-        if (tile) {
-          this.tileContainer.removeChild(tile.container);
-          count++;
-        }
-        this.tiles[r][c] = null;
-        this.grid[r][c] = null;
-      }
-    }
-    this.score.addMatch(count);
-  }
-
-  /** Destroy a single tile at a given position. */
-  private async destroySingleTile(pos: GridPosition): Promise<void> {
-    const tile = this.tiles[pos.row][pos.col];
-    if (!tile) return;
-    await tile.animateDestroy(this.animator, DESTROY_DURATION);
-    this.tileContainer.removeChild(tile.container);
-    this.tiles[pos.row][pos.col] = null;
-    this.grid[pos.row][pos.col] = null;
-  }
-
-  /** Pick a random regular color that currently exists on the board. */
-  private pickRandomColorOnBoard(): TileType | null {
-    const colors = new Set<TileType>();
-    for (let r = 0; r < GRID_ROWS; r++) {
-      for (let c = 0; c < GRID_COLS; c++) {
-        const t = this.grid[r][c];
-        if (t !== null && t !== TileType.LineBomb && t !== TileType.ColorBomb) {
-          colors.add(t);
-        }
-      }
-    }
-    if (colors.size === 0) return null;
-    const arr = Array.from(colors);
-    return arr[Math.floor(Math.random() * arr.length)];
-  }
-
-  // ─── Cascade & fill (unchanged logic) ──────────────────────────────
-
-  private async cascade(): Promise<void> {
-    const fallPromises: Promise<void>[] = [];
-
-    for (let c = 0; c < GRID_COLS; c++) {
-      let emptyRow = GRID_ROWS - 1;
-
-      for (let r = GRID_ROWS - 1; r >= 0; r--) {
-        if (this.tiles[r][c] !== null) {
-          if (r !== emptyRow) {
-            const tile = this.tiles[r][c]!;
-            const distance = emptyRow - r;
-
-            this.tiles[emptyRow][c] = tile;
-            this.grid[emptyRow][c] = tile.tileType;
-            this.tiles[r][c] = null;
-            this.grid[r][c] = null;
-
-            tile.gridRow = emptyRow;
-            tile.gridCol = c;
-            fallPromises.push(
-              tile.animateFall(emptyRow, this.animator, FALL_DURATION * distance),
-            );
-          }
-          emptyRow--;
-        }
-      }
     }
 
     await Promise.all(fallPromises);
+    if (moves.length > 0) this.audio.play("land");
   }
 
-  private async fillEmpty(): Promise<void> {
+  private async fillEmpty(spawns: SpawnMove[]): Promise<void> {
     const spawnPromises: Promise<void>[] = [];
 
-    for (let c = 0; c < GRID_COLS; c++) {
-      let spawned = 0;
-      for (let r = GRID_ROWS - 1; r >= 0; r--) {
-        if (this.tiles[r][c] === null) {
-          const type = randomTileType(this.score.activeColors);
-          this.grid[r][c] = type;
+    for (const s of spawns) {
+      const tile = this.pool.acquire(s.cell, s.row, s.col);
+      this.tiles[s.row][s.col] = tile;
+      if (s.inPlace) {
+        spawnPromises.push(tile.animateSpawn(this.animator, this.spawnDuration));
+        continue;
+      }
 
-          const tile = new Tile(type, r, c);
-          tile.container.y = Tile.pixelY(-1 - spawned);
-          tile.container.x = Tile.pixelX(c);
-          this.tiles[r][c] = tile;
-          this.tileContainer.addChild(tile.container);
+      tile.container.y = Tile.pixelY(-1 - s.offset);
+      tile.container.x = Tile.pixelX(s.col);
 
-          const distance = r + 1 + spawned;
-          spawnPromises.push(
-            tile.animateFall(r, this.animator, FALL_DURATION * distance),
-          );
-          spawned++;
-        }
-      }
+      const distance = s.row + 1 + s.offset;
+      spawnPromises.push(
+        tile.animateFall(s.row, this.animator, this.fallDuration * distance),
+      );
     }
 
     await Promise.all(spawnPromises);
+    if (spawns.length > 0) this.audio.play("land");
   }
 
   private showGameOver(): void {
-    const overlay = document.getElementById("game-over")!;
-    overlay.classList.add("show");
+    this.audio.play("gameOver");
+    this.endGame({
+      title: "Game Over",
+      detail: this.tracker
+        ? `${this.tracker.level.name} — no moves left`
+        : `${this.engine.score} points`,
+    });
   }
 
-  private async reshuffleBoard(): Promise<void> {
-    for (let r = 0; r < GRID_ROWS; r++) {
-      for (let c = 0; c < GRID_COLS; c++) {
-        const tile = this.tiles[r][c];
-        if (tile) {
-          this.tileContainer.removeChild(tile.container);
-        }
-      }
-    }
-
-    const data = generateGrid(this.score.activeColors);
-    this.grid = data;
-    this.tiles = [];
+  /** Stop play for good and show the result overlay. */
+  private endGame(result: ResultOptions): void {
+    this.over = true;
+    this.busy = true;
+    this.stopLevelTimer();
+    this.clearHint();
+    this.input.setEnabled(false);
+    this.updateUndoButton();
+    clearSavedGame();
+    this.describeBoard();
+    this.announcer.say(result.detail ? `${result.title}. ${result.detail}` : result.title);
+    this.results.show({ ...result, breakdown: this.moveScores });
+  }
 
-    const spawnPromises: Promise<void>[] = [];
-    for (let r = 0; r < GRID_ROWS; r++) {
-      this.tiles[r] = [];
-      for (let c = 0; c < GRID_COLS; c++) {
-        const tile = new Tile(data[r][c], r, c);
-        tile.container.scale.set(0);
-        this.tiles[r][c] = tile;
-        this.tileContainer.addChild(tile.container);
-        spawnPromises.push(tile.animateSpawn(this.animator, SPAWN_DURATION));
-      }
-    }
-    await Promise.all(spawnPromises);
+  /** Fly every tile to its reshuffled cell, under a short "shuffling" notice. */
+  private async playShuffle(moves: { from: GridPosition; to: GridPosition }[]): Promise<void> {
+    const notice = new Text({
+      text: "No moves — shuffling!",
+      style: { fill: this.theme.effects.highlight, fontSize: 32, fontWeight: "700", dropShadow: { blur: 6, distance: 0 } },
+    });
+    notice.anchor.set(0.5);
+    notice.position.set(this.width / 2, this.height / 2);
+    notice.alpha = 0;
+    this.container.addChild(notice);
+
+    const moved = moves.map((m) => ({ tile: this.tiles[m.from.row][m.from.col]!, to: m.to }));
+    const banner = notice as unknown as Record<string, number>;
+    await this.animator.timeline()
+      .to(banner, { alpha: 1 }, SHUFFLE_NOTICE_DURATION)
+      .add(() => Promise.all(
+        moved.map(({ tile, to }) => {
+          this.tiles[to.row][to.col] = tile;
+          return tile.animateSwap(to.row, to.col, this.animator, SHUFFLE_DURATION);
+        }),
+      ))
+      .to(banner, { alpha: 0 }, SHUFFLE_NOTICE_DURATION)
+      .play();
+    this.container.removeChild(notice);
+    notice.destroy();
   }
 }
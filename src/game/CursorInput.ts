@@ -0,0 +1,236 @@
+import { Container, Graphics } from "pixi.js";
+import { BOARD_PADDING, CELL_SIZE, TILE_RADIUS, TILE_SIZE } from "../constants";
+import type { BoardShape, GridPosition } from "../types";
+import { DEFAULT_SHAPE, firstPlayable, isPlayable } from "../utils/shape";
+import type { SwapCallback } from "./InputHandler";
+
+type Direction = "up" | "down" | "left" | "right";
+
+const STEPS: Record<Direction, GridPosition> = {
+  up: { row: -1, col: 0 },
+  down: { row: 1, col: 0 },
+  left: { row: 0, col: -1 },
+  right: { row: 0, col: 1 },
+};
+
+const KEY_DIRECTIONS: Record<string, Direction> = {
+  ArrowUp: "up",
+  ArrowDown: "down",
+  ArrowLeft: "left",
+  ArrowRight: "right",
+  KeyW: "up",
+  KeyS: "down",
+  KeyA: "left",
+  KeyD: "right",
+};
+
+/** Standard-mapping gamepad buttons: A picks up, B drops, then the d-pad. */
+const PAD_PICK = 0;
+const PAD_DROP = 1;
+const PAD_DIRECTIONS: [number, Direction][] = [[12, "up"], [13, "down"], [14, "left"], [15, "right"]];
+/** Left stick deflection that counts as a direction. */
+const STICK_THRESHOLD = 0.5;
+/** A held direction repeats after this long (ms), then every REPEAT_INTERVAL. */
+const REPEAT_DELAY = 350;
+const REPEAT_INTERVAL = 120;
+
+const CURSOR_COLOR = 0xffffff;
+const HELD_COLOR = 0xf1c40f;
+
+/**
+ * Keyboard and gamepad play: a highlighted cursor cell moved with the
+ * arrow keys/WASD or the d-pad/left stick. Space/Enter (or A) picks up the
+ * tile under the cursor, and the next direction swaps it that way.
+ * The cursor only appears once one of these inputs is used.
+ */
+export class CursorInput {
+  private onSwap: SwapCallback;
+  private gfx: Graphics;
+  private shape: BoardShape = DEFAULT_SHAPE;
+  private canSwap: (pos: GridPosition) => boolean = () => true;
+  private enabled = true;
+  private cursor: GridPosition = { row: 0, col: 0 };
+  /** True while a tile is picked up and waiting for a direction. */
+  private held = false;
+  /** Corner radius of the tiles the cursor outlines (the theme's). */
+  private tileRadius = TILE_RADIUS;
+
+  /** Gamepad buttons/directions pressed on the previous poll, and when each repeats next. */
+  private padPressed = new Map<string, number>();
+  private padFrame: number | null = null;
+
+  constructor(boardContainer: Container, onSwap: SwapCallback) {
+    this.onSwap = onSwap;
+    this.gfx = new Graphics();
+    this.gfx.visible = false;
+    boardContainer.addChild(this.gfx);
+
+    window.addEventListener("keydown", this.onKeyDown);
+    window.addEventListener("gamepadconnected", this.startPolling);
+  }
+
+  /** Match the cursor's corners to the tiles' after a theme change. */
+  setTileRadius(radius: number): void {
+    this.tileRadius = radius;
+    if (this.gfx.visible) this.draw();
+  }
+
+  /** Set the board layout; the cursor moves back onto the board if needed. */
+  setShape(shape: BoardShape): void {
+    this.shape = shape;
+    this.held = false;
+    if (!isPlayable(shape, this.cursor.row, this.cursor.col)) {
+      this.cursor = firstPlayable(shape);
+    }
+    this.draw();
+  }
+
+  setSwapFilter(canSwap: (pos: GridPosition) => boolean): void {
+    this.canSwap = canSwap;
+  }
+
+  setEnabled(v: boolean): void {
+    this.enabled = v;
+    if (!v) this.held = false;
+    this.draw();
+  }
+
+  /** Hide the cursor (e.g. when the player goes back to the mouse or touch). */
+  hide(): void {
+    this.held = false;
+    this.gfx.visible = false;
+  }
+
+  private onKeyDown = (e: KeyboardEvent): void => {
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    const target = e.target as HTMLElement | null;
+    if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.tagName === "BUTTON")) {
+      return;
+    }
+
+    const dir = KEY_DIRECTIONS[e.code];
+    if (dir) {
+      e.preventDefault();
+      this.press(dir);
+    } else if (e.code === "Space" || e.code === "Enter") {
+      e.preventDefault();
+      this.pick();
+    }
+  };
+
+  /** Move the cursor, or swap the held tile, one cell in `dir`. */
+  private press(dir: Direction): void {
+    if (!this.reveal()) return;
+    const step = STEPS[dir];
+
+    if (this.held) {
+      this.held = false;
+      const a = this.cursor;
+      const b = { row: a.row + step.row, col: a.col + step.col };
+      if (isPlayable(this.shape, b.row, b.col) && this.canSwap(b)) {
+        this.cursor = b;
+        this.draw();
+        this.onSwap({ a, b });
+        return;
+      }
+      this.draw();
+      return;
+    }
+
+    // Skip over holes to the next cell in that direction
+    let { row, col } = this.cursor;
+    do {
+      row += step.row;
+      col += step.col;
+    } while (row >= 0 && row < this.shape.rows && col >= 0 && col < this.shape.cols
+      && !isPlayable(this.shape, row, col));
+    if (isPlayable(this.shape, row, col)) this.cursor = { row, col };
+    this.draw();
+  }
+
+  /** Pick up the tile under the cursor, or put it back down. */
+  private pick(): void {
+    if (!this.reveal()) return;
+    this.held = !this.held && this.canSwap(this.cursor);
+    this.draw();
+  }
+
+  /** Show the cursor on first use. Returns false while input is disabled. */
+  private reveal(): boolean {
+    if (!this.gfx.visible) {
+      this.gfx.visible = true;
+      this.draw();
+    }
+    return this.enabled;
+  }
+
+  private draw(): void {
+    const g = this.gfx;
+    g.clear();
+    const x = BOARD_PADDING + this.cursor.col * CELL_SIZE;
+    const y = BOARD_PADDING + this.cursor.row * CELL_SIZE;
+    const color = this.held ? HELD_COLOR : CURSOR_COLOR;
+    if (this.held) {
+      g.roundRect(x, y, TILE_SIZE, TILE_SIZE, this.tileRadius).fill({ color, alpha: 0.25 });
+    }
+    g.roundRect(x - 3, y - 3, TILE_SIZE + 6, TILE_SIZE + 6, this.tileRadius + 2)
+      .stroke({ width: this.held ? 5 : 3, color, alpha: this.enabled ? 0.95 : 0.4 });
+  }
+
+  // ─── Gamepad ───────────────────────────────────────────────────────
+
+  private startPolling = (): void => {
+    if (this.padFrame === null) this.padFrame = requestAnimationFrame(this.poll);
+  };
+
+  /** Read every standard-mapping pad once per frame, until none are connected. */
+  private poll = (now: number): void => {
+    const pads = navigator.getGamepads().filter((p): p is Gamepad => p !== null && p.mapping === "standard");
+    if (pads.length === 0) {
+      this.padFrame = null;
+      this.padPressed.clear();
+      return;
+    }
+
+    const down = new Set<string>();
+    for (const pad of pads) {
+      if (pad.buttons[PAD_PICK]?.pressed) down.add("pick");
+      if (pad.buttons[PAD_DROP]?.pressed) down.add("drop");
+      for (const [button, dir] of PAD_DIRECTIONS) {
+        if (pad.buttons[button]?.pressed) down.add(dir);
+      }
+      const [x = 0, y = 0] = pad.axes;
+      if (x <= -STICK_THRESHOLD) down.add("left");
+      if (x >= STICK_THRESHOLD) down.add("right");
+      if (y <= -STICK_THRESHOLD) down.add("up");
+      if (y >= STICK_THRESHOLD) down.add("down");
+    }
+
+    for (const input of down) {
+      const repeatAt = this.padPressed.get(input);
+      if (repeatAt === undefined) {
+        this.padPressed.set(input, now + REPEAT_DELAY);
+        this.padInput(input);
+      } else if (now >= repeatAt && input in STEPS && !this.held) {
+        // Only cursor moves repeat; a held tile swaps once per press
+        this.padPressed.set(input, now + REPEAT_INTERVAL);
+        this.padInput(input);
+      }
+    }
+    for (const input of [...this.padPressed.keys()]) {
+      if (!down.has(input)) this.padPressed.delete(input);
+    }
+
+    this.padFrame = requestAnimationFrame(this.poll);
+  };
+
+  private padInput(input: string): void {
+    if (input === "pick") {
+      this.pick();
+    } else if (input === "drop") {
+      if (this.held) this.pick();
+    } else {
+      this.press(input as Direction);
+    }
+  }
+}
@@ -0,0 +1,937 @@
+import {
+  LINE_BOMB_MATCH,
+  COLOR_BOMB_MATCH,
+  AREA_BOMB_RADIUS,
+  SHUFFLE_ATTEMPTS,
+} from "../constants";
+import { TileType, TILE_TYPE_COUNT } from "../types";
+import type {
+  BlockerLayout,
+  BoardLayout,
+  BombCombo,
+  BoardShape,
+  CellState,
+  ClearedCell,
+  EngineSnapshot,
+  FallMove,
+  GameEvent,
+  GridPosition,
+  MatchGroup,
+  MatchIntersection,
+  ScoreAward,
+  SpawnMove,
+  SwapRequest,
+} from "../types";
+import { findMatches, findIntersections, MoveFinder } from "../utils/matching";
+import { Rng, generateGrid, randomTileType } from "../utils/random";
+import { DEFAULT_SHAPE, isPlayable } from "../utils/shape";
+import { scoreAward } from "./Scoring";
+
+const STARTING_COLORS = 4;
+
+/** The tile in the middle of a match, where its score is shown. */
+function middleOf(match: MatchGroup): GridPosition {
+  return match.positions[Math.floor(match.positions.length / 2)];
+}
+
+/** Award kinds that each count as one clear towards a move's chain award. */
+const CLEAR_AWARDS = new Set<ScoreAward["kind"]>(["match", "lineBomb", "areaBomb", "colorBomb", "blast"]);
+
+/** Bomb tile types by the name they have in a BombCombo. */
+const BOMB_KINDS: Partial<Record<TileType, "line" | "color" | "area">> = {
+  [TileType.LineBomb]: "line",
+  [TileType.ColorBomb]: "color",
+  [TileType.AreaBomb]: "area",
+};
+const POINTS_PER_NEW_COLOR = 3000;
+
+/**
+ * Renderer-free match-3 rules.
+ * Owns the cell grid and the score; `applySwap` resolves a whole player move
+ * synchronously and returns the ordered events a view replays to animate it.
+ */
+export class GameEngine {
+  /** Source of every random choice: grid generation, refills and chained color bombs. */
+  readonly rng: Rng;
+  /** Board size and holes; fixed for the lifetime of the game. */
+  readonly shape: BoardShape;
+  /** Fixed number of colors in play; when undefined it grows with the score. */
+  readonly colors?: number;
+  /** Obstacles placed on the starting board by `reset`. */
+  readonly blockers?: BlockerLayout;
+  /** Hand-built starting board used by `reset` instead of a generated one. */
+  readonly layout?: BoardLayout;
+  private cells: (CellState | null)[][] = [];
+  /** Layers of ice under each cell; ice stays put while tiles move over it. */
+  private ice: number[][] = [];
+  /** Valid-move search, caught up with the grid each time it's asked. */
+  private moveFinder: MoveFinder | null = null;
+  private events: GameEvent[] = [];
+  private _score = 0;
+  /** Matches and bomb blasts so far in the move being resolved, for its chain award. */
+  private clears = 0;
+
+  constructor(
+    rng: Rng = new Rng(),
+    shape: BoardShape = DEFAULT_SHAPE,
+    colors?: number,
+    blockers?: BlockerLayout,
+    layout?: BoardLayout,
+  ) {
+    this.rng = rng;
+    this.shape = layout?.shape ?? shape;
+    this.colors = colors ?? layout?.colors;
+    this.blockers = blockers;
+    this.layout = layout;
+    this.reset();
+  }
+
+  /** Seed of the RNG driving this game. */
+  get seed(): number {
+    return this.rng.seed;
+  }
+
+  get score(): number {
+    return this._score;
+  }
+
+  /** Number of regular colors currently in play (grows with score unless fixed). */
+  get activeColors(): number {
+    if (this.colors !== undefined) return this.colors;
+    return Math.min(TILE_TYPE_COUNT, STARTING_COLORS + Math.floor(this._score / POINTS_PER_NEW_COLOR));
+  }
+
+  /**
+   * Start a new game on the hand-built layout, or on a freshly generated
+   * grid with any blockers placed. A grid that happens to have no moves is
+   * shuffled before play starts.
+   */
+  reset(): void {
+    this._score = 0;
+    if (this.layout) {
+      this.cells = this.layout.cells.map((row) => row.map((cell) => (cell ? { ...cell } : null)));
+      this.ice = this.layout.ice.map((row) => [...row]);
+      if (!this.hasValidMoves()) this.shuffle();
+      return;
+    }
+
+    const data = generateGrid(this.activeColors, this.rng, this.shape);
+    this.cells = data.map((row) => row.map((type) => (type === null ? null : { type })));
+    this.ice = data.map((row, r) => row.map((_, c) => this.blockers?.ice[r][c] ?? 0));
+    for (const p of this.blockers?.stones ?? []) {
+      this.cells[p.row][p.col] = { type: TileType.Stone };
+    }
+    for (const p of this.blockers?.locks ?? []) {
+      const cell = this.cells[p.row][p.col];
+      if (cell) cell.locked = true;
+    }
+    if (!this.hasValidMoves()) this.shuffle();
+  }
+
+  /** Capture the full game state (grid, ice, score and RNG position). */
+  snapshot(): EngineSnapshot {
+    return {
+      cells: this.cells.map((row) => row.map((cell) => (cell ? { ...cell } : null))),
+      ice: this.ice.map((row) => [...row]),
+      score: this._score,
+      rngState: this.rng.state,
+    };
+  }
+
+  /** Return to a state captured by `snapshot`. */
+  restore(snapshot: EngineSnapshot): void {
+    this.cells = snapshot.cells.map((row) => row.map((cell) => (cell ? { ...cell } : null)));
+    this.ice = snapshot.ice.map((row) => [...row]);
+    this._score = snapshot.score;
+    this.rng.state = snapshot.rngState;
+  }
+
+  /** The cell at a grid position, or null when empty. */
+  cellAt(row: number, col: number): Readonly<CellState> | null {
+    return this.cells[row][col];
+  }
+
+  /** The board as it stands, in a form `parseBoardLayout` can read back. */
+  currentLayout(): BoardLayout {
+    const { cells, ice } = this.snapshot();
+    return { shape: this.shape, cells, ice, colors: this.colors };
+  }
+
+  /** Layers of ice under a cell (0 = none). */
+  iceAt(row: number, col: number): number {
+    return this.ice[row][col];
+  }
+
+  /** True when the player may swap the tile at `p` (not empty, a stone or chain-locked). */
+  canSwap(p: GridPosition): boolean {
+    if (!this.inBounds(p)) return false;
+    const cell = this.cells[p.row][p.col];
+    return cell !== null && !this.isFixed(cell);
+  }
+
+  /**
+   * Build a grid for matching logic.
+   * Line and area bombs keep their bomb type so they act as wildcards
+   * regardless of their original base color.
+   */
+  typeGrid(): (TileType | null)[][] {
+    return this.cells.map((row) => row.map((cell) => (cell ? cell.type : null)));
+  }
+
+  hasValidMoves(): boolean {
+    return this.syncMoves().hasValidMoves();
+  }
+
+  /** The best available move, for hints. */
+  findHint(): SwapRequest | null {
+    return this.syncMoves().findValidMove();
+  }
+
+  /** The move finder, rescanning only the rows and columns that changed since it was last used. */
+  private syncMoves(): MoveFinder {
+    if (!this.moveFinder) {
+      this.moveFinder = new MoveFinder(this.typeGrid(), this.lockGrid());
+    } else {
+      this.moveFinder.sync(this.typeGrid(), this.lockGrid());
+    }
+    return this.moveFinder;
+  }
+
+  /** Which cells hold chain-locked tiles, for the move search. */
+  private lockGrid(): boolean[][] {
+    return this.cells.map((row) => row.map((cell) => cell?.locked === true));
+  }
+
+  // ─── Main swap handler ─────────────────────────────────────────────
+
+  /**
+   * Resolve a player swap: the swap itself, every match, bomb and cascade
+   * it triggers, and the final game-over check.
+   * Returns an empty list if the request is not a swap of two adjacent
+   * movable tiles.
+   */
+  applySwap(req: SwapRequest): GameEvent[] {
+    const { a, b } = req;
+    if (!this.canSwap(a) || !this.canSwap(b)) return [];
+    if (Math.abs(a.row - b.row) + Math.abs(a.col - b.col) !== 1) return [];
+    const cellA = this.cells[a.row][a.col]!;
+    const cellB = this.cells[b.row][b.col]!;
+
+    this.events = [];
+    this.clears = 0;
+    this.swapCells(a, b);
+    this.emit({ type: "swapped", a, b });
+
+    // ── Bomb + bomb, or color bomb + tile ────────────────────────────
+    const combo = this.bombCombo(cellA, cellB);
+    const aIsColorBomb = cellA.type === TileType.ColorBomb;
+    const bIsColorBomb = cellB.type === TileType.ColorBomb;
+
+    if (combo || aIsColorBomb || bIsColorBomb) {
+      if (combo) {
+        this.combineBombs(combo, a, b);
+      } else {
+        // Color bomb + regular tile: clear every tile of that color
+        const bombPos = aIsColorBomb ? b : a;
+        const otherPos = aIsColorBomb ? a : b;
+        const targetType = this.cells[otherPos.row][otherPos.col]!.type;
+        this.detonateColorBomb(targetType, bombPos);
+        this.destroySingleTile(bombPos);
+      }
+
+      this.cascade();
+      this.fillEmpty();
+
+      // Chain matches after the blast
+      const newMatches = findMatches(this.typeGrid());
+      if (newMatches.length > 0) {
+        this.processMatches(newMatches, null, 1);
+      }
+    } else {
+      // ── Normal swap ────────────────────────────────────────────────
+      const matches = findMatches(this.typeGrid());
+      if (matches.length === 0) {
+        // Invalid move — swap back
+        this.swapCells(a, b);
+        this.emit({ type: "swapReverted", a, b });
+      } else {
+        this.processMatches(matches, { a, b }, 0);
+      }
+    }
+
+    if (this.clears > 1) this.award({ kind: "chain", clears: this.clears }, b);
+
+    if (!this.hasValidMoves()) {
+      const moves = this.shuffle();
+      this.emit(moves ? { type: "shuffled", moves } : { type: "gameOver" });
+    }
+
+    const events = this.events;
+    this.events = [];
+    return events;
+  }
+
+  private emit(event: GameEvent): void {
+    this.events.push(event);
+  }
+
+  private inBounds(p: GridPosition): boolean {
+    return isPlayable(this.shape, p.row, p.col);
+  }
+
+  private swapCells(a: GridPosition, b: GridPosition): void {
+    const tmp = this.cells[a.row][a.col];
+    this.cells[a.row][a.col] = this.cells[b.row][b.col];
+    this.cells[b.row][b.col] = tmp;
+  }
+
+  /** Stones and chain-locked tiles stay where they are: no swapping, falling or shuffling. */
+  private isFixed(cell: CellState): boolean {
+    return cell.type === TileType.Stone || cell.locked === true;
+  }
+
+  private isBomb(p: GridPosition): boolean {
+    const t = this.cells[p.row][p.col]?.type;
+    return t === TileType.LineBomb || t === TileType.ColorBomb || t === TileType.AreaBomb;
+  }
+
+  /** Which combo two swapped cells make, or null unless both are bombs. */
+  private bombCombo(x: CellState, y: CellState): BombCombo | null {
+    const kind = (c: CellState) => BOMB_KINDS[c.type];
+    const kx = kind(x);
+    const ky = kind(y);
+    if (!kx || !ky) return null;
+    // Name the pair in a fixed order: color, then line, then area
+    const order = ["color", "line", "area"];
+    const [first, second] = order.indexOf(kx) <= order.indexOf(ky) ? [kx, ky] : [ky, kx];
+    return `${first}+${second}` as BombCombo;
+  }
+
+  /** Add the points for one award and report where it happened. */
+  private award(award: ScoreAward, pos: GridPosition): void {
+    const points = scoreAward(award);
+    this._score += points;
+    if (CLEAR_AWARDS.has(award.kind)) this.clears++;
+    this.emit({ type: "scored", award, pos, points, total: this._score });
+  }
+
+  // ─── Process matches (with bonus spawning) ─────────────────────────
+
+  /**
+   * Clear a wave of matches and everything it sets off, then recurse into
+   * the matches left by falling tiles. `cascadeLevel` counts those waves
+   * (0 for the matches the swap itself made).
+   */
+  private processMatches(
+    matches: MatchGroup[],
+    swapPositions: { a: GridPosition; b: GridPosition } | null,
+    cascadeLevel: number,
+  ): void {
+    // Collect all positions to destroy (de-duped)
+    const destroySet = new Set<string>();
+    const allPositions: GridPosition[] = [];
+    for (const m of matches) {
+      for (const p of m.positions) {
+        const k = `${p.row},${p.col}`;
+        if (!destroySet.has(k)) {
+          destroySet.add(k);
+          allPositions.push(p);
+        }
+      }
+    }
+
+    // Determine bonus tiles to spawn BEFORE destroying
+    const bonuses = this.determineBonuses(matches, swapPositions);
+
+    for (const m of matches) {
+      this.award({ kind: "match", length: m.length }, middleOf(m));
+    }
+    if (cascadeLevel > 0) {
+      this.award({ kind: "cascade", level: cascadeLevel }, middleOf(matches[0]));
+    }
+
+    // Line and area bombs in a match are detonated separately; bonus cells are replaced in place;
+    // locked tiles only lose their chains
+    const bonusPosKeys = new Set(bonuses.map((b) => `${b.pos.row},${b.pos.col}`));
+    const destroyed: ClearedCell[] = [];
+    const triggeredBombs: GridPosition[] = [];
+    const unlocked: GridPosition[] = [];
+
+    for (const pos of allPositions) {
+      const cell = this.cells[pos.row][pos.col];
+      if (!cell) continue;
+      if (cell.type === TileType.LineBomb || cell.type === TileType.AreaBomb) {
+        triggeredBombs.push(pos);
+        continue;
+      }
+      if (bonusPosKeys.has(`${pos.row},${pos.col}`)) continue;
+      if (cell.locked) {
+        unlocked.push(pos);
+        continue;
+      }
+      destroyed.push({ ...pos, cell });
+    }
+
+    for (const pos of destroyed) {
+      this.cells[pos.row][pos.col] = null;
+    }
+    this.emit({ type: "matched", groups: matches, destroyed });
+
+    if (unlocked.length > 0) {
+      for (const pos of unlocked) delete this.cells[pos.row][pos.col]!.locked;
+      this.emit({ type: "unlocked", positions: unlocked });
+    }
+    // Bombs crack the ice under them when they detonate
+    this.crackIce(allPositions.filter((p) => !triggeredBombs.includes(p)));
+    this.breakStonesAround(allPositions);
+
+    this.detonateChained(triggeredBombs);
+
+    // Spawn bonus tiles in-place
+    for (const bonus of bonuses) {
+      const replaced = this.cells[bonus.pos.row][bonus.pos.col];
+      this.cells[bonus.pos.row][bonus.pos.col] = bonus.cell;
+      this.emit({ type: "bonusSpawned", pos: bonus.pos, cell: { ...bonus.cell }, replaced });
+    }
+
+    this.cascade();
+    this.fillEmpty();
+
+    // Chain matches (no swap positions for cascaded matches)
+    const newMatches = findMatches(this.typeGrid());
+    if (newMatches.length > 0) {
+      this.processMatches(newMatches, null, cascadeLevel + 1);
+    }
+  }
+
+  // ─── Determine which bonuses to spawn ──────────────────────────────
+
+  private determineBonuses(
+    matches: MatchGroup[],
+    swapPositions: { a: GridPosition; b: GridPosition } | null,
+  ): { pos: GridPosition; cell: CellState }[] {
+    const bonuses: { pos: GridPosition; cell: CellState }[] = [];
+    const usedPositions = new Set<string>();
+
+    // L and T shapes make an area bomb, unless one of their runs is long enough for a color bomb
+    const shaped = new Set<MatchGroup>();
+    for (const cross of findIntersections(matches)) {
+      const { horizontal, vertical } = cross;
+      if (shaped.has(horizontal) || shaped.has(vertical)) continue;
+      if (horizontal.length >= COLOR_BOMB_MATCH || vertical.length >= COLOR_BOMB_MATCH) continue;
+      shaped.add(horizontal);
+      shaped.add(vertical);
+
+      const spawnPos = this.pickAreaBombPosition(cross, swapPositions, usedPositions);
+      if (!spawnPos) continue;
+      usedPositions.add(`${spawnPos.row},${spawnPos.col}`);
+      bonuses.push({
+        pos: spawnPos,
+        cell: { type: TileType.AreaBomb, baseType: this.matchColor(horizontal) },
+      });
+    }
+
+    for (const match of matches) {
+      if (match.length < LINE_BOMB_MATCH || shaped.has(match)) continue;
+
+      const spawnPos = this.pickBonusPosition(match, swapPositions, usedPositions);
+      if (!spawnPos) continue;
+      usedPositions.add(`${spawnPos.row},${spawnPos.col}`);
+
+      const sampleType = this.matchColor(match);
+
+      if (match.length >= COLOR_BOMB_MATCH) {
+        bonuses.push({ pos: spawnPos, cell: { type: TileType.ColorBomb } });
+      } else {
+        // match.length === 4 → Line Bomb
+        bonuses.push({
+          pos: spawnPos,
+          cell: { type: TileType.LineBomb, orientation: match.direction, baseType: sampleType },
+        });
+      }
+    }
+
+    return bonuses;
+  }
+
+  /** The color of a match, from its first tile (bombs use their baseType). */
+  private matchColor(match: MatchGroup): TileType {
+    const sample = this.cells[match.positions[0].row][match.positions[0].col]!;
+    return (sample.type === TileType.LineBomb || sample.type === TileType.AreaBomb)
+      && sample.baseType !== undefined
+      ? sample.baseType
+      : sample.type;
+  }
+
+  /**
+   * Pick where an area bomb appears: the player's swap destination or origin
+   * if either is part of the shape, otherwise the corner where its runs cross,
+   * or failing that any other free cell of the shape.
+   */
+  private pickAreaBombPosition(
+    cross: MatchIntersection,
+    swapPositions: { a: GridPosition; b: GridPosition } | null,
+    usedPositions: Set<string>,
+  ): GridPosition | null {
+    const positions = [...cross.horizontal.positions, ...cross.vertical.positions];
+    const inShape = (p: GridPosition) => positions.some((mp) => mp.row === p.row && mp.col === p.col);
+    const free = (p: GridPosition) => this.isFreeForBonus(p, usedPositions);
+
+    if (swapPositions) {
+      if (inShape(swapPositions.b) && free(swapPositions.b)) return swapPositions.b;
+      if (inShape(swapPositions.a) && free(swapPositions.a)) return swapPositions.a;
+    }
+    if (free(cross.at)) return cross.at;
+    return positions.find(free) ?? null;
+  }
+
+  /**
+   * True when a bonus may appear at `p`: no other bonus took it, and it isn't
+   * a chain-locked tile, which the match only unlocks.
+   */
+  private isFreeForBonus(p: GridPosition, usedPositions: Set<string>): boolean {
+    return !usedPositions.has(`${p.row},${p.col}`) && !this.cells[p.row][p.col]?.locked;
+  }
+
+  /**
+   * Pick the grid position where a bonus tile should appear.
+   * Prefers the player's swap destination if it's part of this match;
+   * otherwise falls back to the swap origin, then the middle of the run,
+   * skipping chain-locked tiles.
+   */
+  private pickBonusPosition(
+    match: MatchGroup,
+    swapPositions: { a: GridPosition; b: GridPosition } | null,
+    usedPositions: Set<string>,
+  ): GridPosition | null {
+    const inMatch = (p: GridPosition) =>
+      match.positions.some((mp) => mp.row === p.row && mp.col === p.col);
+    const free = (p: GridPosition) => this.isFreeForBonus(p, usedPositions);
+
+    if (swapPositions) {
+      // Prefer swap destination (b)
+      if (inMatch(swapPositions.b) && free(swapPositions.b)) return swapPositions.b;
+      // Then swap origin (a)
+      if (inMatch(swapPositions.a) && free(swapPositions.a)) return swapPositions.a;
+    }
+
+    // Fallback: middle of the run
+    const mid = Math.floor(match.positions.length / 2);
+    for (let offset = 0; offset < match.positions.length; offset++) {
+      const idx = (mid + offset) % match.positions.length;
+      if (free(match.positions[idx])) return match.positions[idx];
+    }
+
+    return null;
+  }
+
+  // ─── Bomb detonation ───────────────────────────────────────────────
+
+  /**
+   * Detonate a Line Bomb at `pos`, clearing its entire row or column.
+   * If other bombs are hit, they chain-detonate.
+   */
+  private detonateLineBomb(pos: GridPosition): void {
+    const cell = this.cells[pos.row][pos.col];
+    if (!cell) return;
+
+    const orientation = cell.orientation ?? "horizontal";
+    this.cells[pos.row][pos.col] = null;
+
+    // Collect tiles in the line
+    const targets: GridPosition[] = [];
+    if (orientation === "horizontal") {
+      for (let c = 0; c < this.shape.cols; c++) {
+        if (this.cells[pos.row][c]) targets.push({ row: pos.row, col: c });
+      }
+    } else {
+      for (let r = 0; r < this.shape.rows; r++) {
+        if (this.cells[r][pos.col]) targets.push({ row: r, col: pos.col });
+      }
+    }
+
+    const chainedBombs = targets.filter((t) => this.isBomb(t));
+    const cleared = this.clearCells(targets.filter((t) => !this.isBomb(t)));
+
+    this.emit({
+      type: "bombDetonated",
+      bomb: "line",
+      pos,
+      orientation,
+      baseType: cell.baseType,
+      targets: cleared,
+    });
+    this.crackIce([pos, ...cleared]);
+    this.award({ kind: "lineBomb" }, pos);
+
+    this.detonateChained(chainedBombs);
+  }
+
+  /**
+   * Detonate a Color Bomb at `sourcePos`: destroy all tiles of `targetType`
+   * on the board. If any of those tiles are bombs, chain-detonate them.
+   * The color bomb itself is left in place.
+   */
+  private detonateColorBomb(targetType: TileType, sourcePos: GridPosition): void {
+    const targets: GridPosition[] = [];
+    for (let r = 0; r < this.shape.rows; r++) {
+      for (let c = 0; c < this.shape.cols; c++) {
+        if (this.cells[r][c]?.type === targetType) {
+          targets.push({ row: r, col: c });
+        }
+      }
+    }
+
+    if (targets.length === 0) return;
+
+    const chainedBombs = targets.filter((t) => this.isBomb(t));
+    const cleared = this.clearCells(targets.filter((t) => !this.isBomb(t)));
+
+    this.emit({ type: "bombDetonated", bomb: "color", pos: sourcePos, targetType, targets: cleared });
+    this.crackIce(cleared);
+    this.award({ kind: "colorBomb", cleared: targets.length }, sourcePos);
+
+    this.detonateChained(chainedBombs);
+  }
+
+  /**
+   * Detonate an Area Bomb at `pos`, clearing every tile within `radius`
+   * cells (a 3x3 block by default). Bombs caught in the blast chain.
+   */
+  private detonateAreaBomb(pos: GridPosition, radius = AREA_BOMB_RADIUS): void {
+    const cell = this.cells[pos.row][pos.col];
+    if (!cell) return;
+    this.cells[pos.row][pos.col] = null;
+
+    const targets: GridPosition[] = [];
+    for (let r = pos.row - radius; r <= pos.row + radius; r++) {
+      for (let c = pos.col - radius; c <= pos.col + radius; c++) {
+        const p = { row: r, col: c };
+        if (this.inBounds(p) && this.cells[r][c]) targets.push(p);
+      }
+    }
+
+    const chainedBombs = targets.filter((t) => this.isBomb(t));
+    const cleared = this.clearCells(targets.filter((t) => !this.isBomb(t)));
+
+    this.emit({ type: "bombDetonated", bomb: "area", pos, radius, baseType: cell.baseType, targets: cleared });
+    this.crackIce([pos, ...cleared]);
+    this.award({ kind: "areaBomb" }, pos);
+
+    this.detonateChained(chainedBombs);
+  }
+
+  /**
+   * Clear `width` whole rows and columns centred on the bomb at `pos`
+   * (two line bombs, or a line bomb and an area bomb, swapped together).
+   */
+  private detonateCross(pos: GridPosition, width: number): void {
+    if (!this.cells[pos.row][pos.col]) return;
+    this.cells[pos.row][pos.col] = null;
+
+    const half = Math.floor(width / 2);
+    const targets: GridPosition[] = [];
+    for (let r = 0; r < this.shape.rows; r++) {
+      for (let c = 0; c < this.shape.cols; c++) {
+        const inBand = Math.abs(r - pos.row) <= half || Math.abs(c - pos.col) <= half;
+        if (inBand && this.cells[r][c]) targets.push({ row: r, col: c });
+      }
+    }
+
+    const chainedBombs = targets.filter((t) => this.isBomb(t));
+    const cleared = this.clearCells(targets.filter((t) => !this.isBomb(t)));
+
+    this.emit({ type: "bombDetonated", bomb: "cross", pos, width, targets: cleared });
+    this.crackIce([pos, ...cleared]);
+    this.award({ kind: "blast", cleared: cleared.length }, pos);
+
+    this.detonateChained(chainedBombs);
+  }
+
+  /**
+   * Resolve two bombs swapped into each other. The bomb the player dragged
+   * (now at `b`) absorbs the other one and fires the combo's effect there.
+   */
+  private combineBombs(combo: BombCombo, a: GridPosition, b: GridPosition): void {
+    this.emit({ type: "bombsCombined", combo, a, b });
+    this.award({ kind: "combo", combo }, b);
+
+    switch (combo) {
+      case "line+line":
+        this.destroySingleTile(a);
+        this.detonateCross(b, 1);
+        break;
+      case "line+area":
+        this.destroySingleTile(a);
+        this.detonateCross(b, AREA_BOMB_RADIUS * 2 + 1);
+        break;
+      case "area+area":
+        this.destroySingleTile(a);
+        this.detonateAreaBomb(b, AREA_BOMB_RADIUS + 1);
+        break;
+      case "color+line":
+      case "color+area": {
+        const aIsColorBomb = this.cells[a.row][a.col]!.type === TileType.ColorBomb;
+        this.convertAndDetonate(aIsColorBomb ? a : b, aIsColorBomb ? b : a);
+        break;
+      }
+      case "color+color":
+        this.detonateEntireBoard(b);
+        break;
+    }
+  }
+
+  /**
+   * Color bomb + line or area bomb: every tile of the other bomb's color
+   * becomes a bomb of its kind (line bombs get a random orientation), then
+   * they all go off, the swapped bomb first. Chain-locked tiles keep their
+   * chains and aren't converted, though the blasts can still clear them.
+   */
+  private convertAndDetonate(colorBombPos: GridPosition, bombPos: GridPosition): void {
+    const bomb = this.cells[bombPos.row][bombPos.col]!;
+    const baseType = bomb.baseType ?? this.pickRandomColorOnBoard();
+    const converted: (GridPosition & { cell: CellState })[] = [];
+    if (baseType !== null) {
+      for (let r = 0; r < this.shape.rows; r++) {
+        for (let c = 0; c < this.shape.cols; c++) {
+          const target = this.cells[r][c];
+          if (target?.type !== baseType || target.locked) continue;
+          const cell: CellState = bomb.type === TileType.LineBomb
+            ? { type: TileType.LineBomb, baseType, orientation: this.rng.int(2) === 0 ? "horizontal" : "vertical" }
+            : { type: TileType.AreaBomb, baseType };
+          this.cells[r][c] = cell;
+          converted.push({ row: r, col: c, cell: { ...cell } });
+        }
+      }
+      if (converted.length > 0) {
+        this.emit({ type: "bombsConverted", source: colorBombPos, bombs: converted });
+      }
+    }
+    this.destroySingleTile(colorBombPos);
+    this.detonateChained([bombPos, ...converted]);
+  }
+
+  /** Detonate bombs that were matched or hit by another bomb, in order. */
+  private detonateChained(bombs: GridPosition[]): void {
+    for (const bp of bombs) {
+      const cell = this.cells[bp.row][bp.col];
+      if (!cell) continue;
+      if (cell.type === TileType.LineBomb) {
+        this.detonateLineBomb(bp);
+      } else if (cell.type === TileType.AreaBomb) {
+        this.detonateAreaBomb(bp);
+      } else if (cell.type === TileType.ColorBomb) {
+        // Pick a random color to clear
+        const randomColor = this.pickRandomColorOnBoard();
+        if (randomColor !== null) {
+          this.detonateColorBomb(randomColor, bp);
+        }
+        this.destroySingleTile(bp);
+      }
+    }
+  }
+
+  /** Destroy every tile on the board (two Color Bombs swapped together). */
+  private detonateEntireBoard(pos: GridPosition): void {
+    const occupied: GridPosition[] = [];
+    for (let r = 0; r < this.shape.rows; r++) {
+      for (let c = 0; c < this.shape.cols; c++) {
+        if (this.cells[r][c]) occupied.push({ row: r, col: c });
+      }
+    }
+    const targets = this.clearCells(occupied);
+    this.emit({ type: "bombDetonated", bomb: "board", pos, targets });
+    this.crackIce(targets);
+    this.award({ kind: "blast", cleared: targets.length }, pos);
+  }
+
+  /** Destroy a single tile at a given position. */
+  private destroySingleTile(pos: GridPosition): void {
+    const cell = this.cells[pos.row][pos.col];
+    if (!cell) return;
+    this.cells[pos.row][pos.col] = null;
+    this.emit({ type: "destroyed", pos, cell });
+    this.crackIce([pos]);
+  }
+
+  /** Empty the given cells, returning what each held. */
+  private clearCells(positions: GridPosition[]): ClearedCell[] {
+    const cleared: ClearedCell[] = [];
+    for (const p of positions) {
+      const cell = this.cells[p.row][p.col];
+      if (!cell) continue;
+      cleared.push({ row: p.row, col: p.col, cell });
+      this.cells[p.row][p.col] = null;
+    }
+    return cleared;
+  }
+
+  // ─── Blockers ──────────────────────────────────────────────────────
+
+  /** Remove one layer of ice under each position that has any. */
+  private crackIce(positions: GridPosition[]): void {
+    const cracked: (GridPosition & { layers: number })[] = [];
+    for (const p of positions) {
+      if (this.ice[p.row][p.col] === 0) continue;
+      const layers = --this.ice[p.row][p.col];
+      cracked.push({ row: p.row, col: p.col, layers });
+    }
+    if (cracked.length > 0) {
+      this.emit({ type: "iceCracked", cells: cracked });
+    }
+  }
+
+  /** Break every stone orthogonally next to one of the matched positions. */
+  private breakStonesAround(matched: GridPosition[]): void {
+    const stones: GridPosition[] = [];
+    for (const p of matched) {
+      for (const [dr, dc] of [[-1, 0], [1, 0], [0, -1], [0, 1]]) {
+        const n = { row: p.row + dr, col: p.col + dc };
+        if (!this.inBounds(n) || this.cells[n.row][n.col]?.type !== TileType.Stone) continue;
+        this.cells[n.row][n.col] = null;
+        stones.push(n);
+      }
+    }
+    if (stones.length > 0) {
+      this.emit({ type: "stonesBroken", stones });
+    }
+  }
+
+  /** Pick a random regular color that currently exists on the board. */
+  private pickRandomColorOnBoard(): TileType | null {
+    const colors = new Set<TileType>();
+    for (let r = 0; r < this.shape.rows; r++) {
+      for (let c = 0; c < this.shape.cols; c++) {
+        const t = this.cells[r][c]?.type;
+        if (t !== undefined && t < TILE_TYPE_COUNT) {
+          colors.add(t);
+        }
+      }
+    }
+    if (colors.size === 0) return null;
+    return this.rng.pick(Array.from(colors));
+  }
+
+  // ─── Reshuffle ─────────────────────────────────────────────────────
+
+  /**
+   * Rearrange the existing movable tiles (bombs included) into a layout with
+   * no immediate matches and at least one valid move. Stones and locked
+   * tiles stay put.
+   * Returns where each tile went, or null (grid unchanged) if no such
+   * layout was found.
+   */
+  private shuffle(): { from: GridPosition; to: GridPosition }[] | null {
+    const positions: GridPosition[] = [];
+    for (let r = 0; r < this.shape.rows; r++) {
+      for (let c = 0; c < this.shape.cols; c++) {
+        const cell = this.cells[r][c];
+        if (cell && !this.isFixed(cell)) positions.push({ row: r, col: c });
+      }
+    }
+    const original = positions.map((p) => this.cells[p.row][p.col]);
+
+    for (let attempt = 0; attempt < SHUFFLE_ATTEMPTS; attempt++) {
+      // Fisher-Yates over the indices of the occupied cells
+      const order = positions.map((_, i) => i);
+      for (let i = order.length - 1; i > 0; i--) {
+        const j = this.rng.int(i + 1);
+        [order[i], order[j]] = [order[j], order[i]];
+      }
+      positions.forEach((p, i) => {
+        this.cells[p.row][p.col] = original[order[i]];
+      });
+
+      if (findMatches(this.typeGrid()).length === 0 && this.hasValidMoves()) {
+        return positions.map((to, i) => ({ from: positions[order[i]], to }));
+      }
+    }
+
+    positions.forEach((p, i) => {
+      this.cells[p.row][p.col] = original[i];
+    });
+    return null;
+  }
+
+  // ─── Cascade & fill ────────────────────────────────────────────────
+
+  /**
+   * Drop tiles into empty cells below them, passing over holes.
+   * Stones and locked tiles don't fall and hold up the tiles above them.
+   * Moves are listed bottom-up per column.
+   */
+  private cascade(): void {
+    const moves: FallMove[] = [];
+
+    for (let c = 0; c < this.shape.cols; c++) {
+      // Playable rows of this column, bottom first
+      const slots: number[] = [];
+      for (let r = this.shape.rows - 1; r >= 0; r--) {
+        if (isPlayable(this.shape, r, c)) slots.push(r);
+      }
+
+      // Index into `slots` of the lowest free cell below the current tile
+      let next = 0;
+      for (let i = 0; i < slots.length; i++) {
+        const r = slots[i];
+        const cell = this.cells[r][c];
+        if (cell === null) continue;
+        if (this.isFixed(cell)) {
+          next = i + 1;
+          continue;
+        }
+        const target = slots[next++];
+        if (target !== r) {
+          this.cells[target][c] = this.cells[r][c];
+          this.cells[r][c] = null;
+          moves.push({ fromRow: r, toRow: target, col: c });
+        }
+      }
+    }
+
+    if (moves.length > 0) {
+      this.emit({ type: "fell", moves });
+    }
+  }
+
+  /**
+   * Fill every empty cell with a new tile. Cells above a column's topmost
+   * stone or locked tile are dropped into from above the board; cells below
+   * one can't be reached that way, so their tiles appear in place.
+   */
+  private fillEmpty(): void {
+    const spawns: SpawnMove[] = [];
+
+    for (let c = 0; c < this.shape.cols; c++) {
+      let blocker = this.shape.rows;
+      for (let r = 0; r < this.shape.rows; r++) {
+        const cell = this.cells[r][c];
+        if (cell && this.isFixed(cell)) {
+          blocker = r;
+          break;
+        }
+      }
+
+      let spawned = 0;
+      for (let r = blocker - 1; r >= 0; r--) {
+        if (this.cells[r][c] === null && isPlayable(this.shape, r, c)) {
+          const cell: CellState = { type: randomTileType(this.activeColors, this.rng) };
+          this.cells[r][c] = cell;
+          spawns.push({ row: r, col: c, cell: { ...cell }, offset: spawned });
+          spawned++;
+        }
+      }
+      for (let r = blocker + 1; r < this.shape.rows; r++) {
+        if (this.cells[r][c] === null && isPlayable(this.shape, r, c)) {
+          const cell: CellState = { type: randomTileType(this.activeColors, this.rng) };
+          this.cells[r][c] = cell;
+          spawns.push({ row: r, col: c, cell: { ...cell }, offset: 0, inPlace: true });
+        }
+      }
+    }
+
+    if (spawns.length > 0) {
+      this.emit({ type: "spawned", spawns });
+    }
+  }
+}
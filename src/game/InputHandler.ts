@@ -1,27 +1,48 @@
 import { Container, FederatedPointerEvent } from "pixi.js";
-import { CELL_SIZE, BOARD_PADDING, TILE_SIZE, GRID_COLS, GRID_ROWS } from "../constants";
-import type { GridPosition, SwapRequest } from "../types";
+import { CELL_SIZE, BOARD_PADDING, TILE_SIZE } from "../constants";
+import type { BoardShape, GridPosition, SwapRequest } from "../types";
+import { DEFAULT_SHAPE, isPlayable } from "../utils/shape";
+import { CursorInput } from "./CursorInput";
+import { AccessibleGrid } from "./AccessibleGrid";
 
 export type SwapCallback = (req: SwapRequest) => void;
 
 const SWIPE_THRESHOLD = TILE_SIZE * 0.3;
 
 /**
- * Handles pointer input on the board.
- * Swipe-only: drag any tile in a cardinal direction to swap with its neighbor.
+ * Handles player input on the board.
+ * Pointer: drag any tile in a cardinal direction to swap with its neighbor,
+ * or (in tap-to-swap mode) tap a tile to select it and then tap a neighbor.
+ * Keyboard and gamepad go through a cursor (see CursorInput), and screen
+ * reader users get a hidden DOM grid (see AccessibleGrid); every input ends
+ * up as the same SwapRequest.
  */
 export class InputHandler {
   private enabled = true;
   private onSwap: SwapCallback;
   private boardContainer: Container;
+  private shape: BoardShape = DEFAULT_SHAPE;
+  private canSwap: (pos: GridPosition) => boolean = () => true;
   private pointerDown = false;
   private downPos: GridPosition | null = null;
   private downPixel: { x: number; y: number } | null = null;
   private swiped = false;
+  private cursor: CursorInput;
+  private grid: AccessibleGrid;
+  private tapToSwap = false;
+  /** Tile picked by a tap, waiting for a neighbor to be tapped. */
+  private selected: GridPosition | null = null;
+
+  /** Called when the tap selection changes (null when cleared). */
+  onSelect: ((pos: GridPosition | null) => void) | null = null;
+  /** Called when the player taps a tile that can't be moved. */
+  onReject: ((pos: GridPosition) => void) | null = null;
 
   constructor(boardContainer: Container, onSwap: SwapCallback) {
     this.boardContainer = boardContainer;
     this.onSwap = onSwap;
+    this.cursor = new CursorInput(boardContainer, onSwap);
+    this.grid = new AccessibleGrid(onSwap);
 
     boardContainer.eventMode = "static";
     boardContainer.on("pointerdown", this.onPointerDown, this);
@@ -30,9 +51,65 @@ export class InputHandler {
     boardContainer.on("pointerupoutside", this.onPointerUp, this);
   }
 
+  /** Set the board layout used for hit-testing; swipes into holes are ignored. */
+  setShape(shape: BoardShape): void {
+    this.shape = shape;
+    this.cursor.setShape(shape);
+    this.grid.setShape(shape);
+    this.select(null);
+    this.reset();
+  }
+
+  /** Round the keyboard cursor's corners like the current theme's tiles. */
+  setTileRadius(radius: number): void {
+    this.cursor.setTileRadius(radius);
+  }
+
+  /** Set which tiles may be moved; swipes starting on or aimed at any other tile are ignored. */
+  setSwapFilter(canSwap: (pos: GridPosition) => boolean): void {
+    this.canSwap = canSwap;
+    this.cursor.setSwapFilter(canSwap);
+    this.grid.setSwapFilter(canSwap);
+  }
+
   setEnabled(v: boolean): void {
     this.enabled = v;
-    if (!v) this.reset();
+    this.cursor.setEnabled(v);
+    this.grid.setEnabled(v);
+    if (!v) {
+      this.select(null);
+      this.reset();
+    }
+  }
+
+  /** Relabel the screen reader grid; `describe` names what each cell holds. */
+  describeCells(describe: (row: number, col: number) => string): void {
+    this.grid.update(describe);
+  }
+
+  /** Turn tap-to-swap on or off; swipes work either way. */
+  setTapToSwap(on: boolean): void {
+    this.tapToSwap = on;
+    if (!on) this.select(null);
+  }
+
+  private select(pos: GridPosition | null): void {
+    if (this.selected === pos) return;
+    this.selected = pos;
+    this.onSelect?.(pos);
+  }
+
+  /** Select a tile, swap it with a tapped neighbor, or move the selection. */
+  private tap(pos: GridPosition): void {
+    const sel = this.selected;
+    if (sel && sel.row === pos.row && sel.col === pos.col) {
+      this.select(null);
+    } else if (sel && Math.abs(sel.row - pos.row) + Math.abs(sel.col - pos.col) === 1) {
+      this.select(null);
+      this.onSwap({ a: sel, b: pos });
+    } else {
+      this.select(pos);
+    }
   }
 
   private reset(): void {
@@ -46,7 +123,7 @@ export class InputHandler {
     const local = this.boardContainer.toLocal(e.global);
     const col = Math.floor((local.x - BOARD_PADDING) / CELL_SIZE);
     const row = Math.floor((local.y - BOARD_PADDING) / CELL_SIZE);
-    if (row < 0 || row >= GRID_ROWS || col < 0 || col >= GRID_COLS) return null;
+    if (!isPlayable(this.shape, row, col)) return null;
     const inCellX = (local.x - BOARD_PADDING) - col * CELL_SIZE;
     const inCellY = (local.y - BOARD_PADDING) - row * CELL_SIZE;
     if (inCellX > TILE_SIZE || inCellY > TILE_SIZE) return null;
@@ -62,6 +139,7 @@ export class InputHandler {
     if (adx < SWIPE_THRESHOLD && ady < SWIPE_THRESHOLD) return;
 
     this.swiped = true;
+    this.select(null);
     const a = this.downPos;
     let b: GridPosition;
     if (adx > ady) {
@@ -69,7 +147,7 @@ export class InputHandler {
     } else {
       b = { row: a.row + (dy > 0 ? 1 : -1), col: a.col };
     }
-    if (b.row >= 0 && b.row < GRID_ROWS && b.col >= 0 && b.col < GRID_COLS) {
+    if (isPlayable(this.shape, b.row, b.col) && this.canSwap(b)) {
       this.onSwap({ a, b });
     }
   }
@@ -78,6 +156,11 @@ export class InputHandler {
     if (!this.enabled) return;
     const pos = this.hitTest(e);
     if (!pos) return;
+    this.cursor.hide();
+    if (!this.canSwap(pos)) {
+      if (this.tapToSwap) this.onReject?.(pos);
+      return;
+    }
     const local = this.boardContainer.toLocal(e.global);
     this.pointerDown = true;
     this.downPos = pos;
@@ -98,6 +181,10 @@ export class InputHandler {
     }
     const local = this.boardContainer.toLocal(e.global);
     this.trySwipeFrom(local);
+    if (!this.swiped && this.tapToSwap && this.downPos) {
+      const pos = this.hitTest(e);
+      if (pos && pos.row === this.downPos.row && pos.col === this.downPos.col) this.tap(pos);
+    }
     this.reset();
   };
 }
@@ -0,0 +1,227 @@
+import { COLOR_NAMES } from "../constants";
+import { TileType, TILE_TYPE_COUNT } from "../types";
+import type { BoardShape, CellState, GameEvent, LevelDefinition, LevelGoal, LevelProgress } from "../types";
+import { parseBlockers } from "../utils/blockers";
+import { parseBoardLayout } from "../utils/boardFormat";
+import { DEFAULT_SHAPE, isValidShape, parseMask, presetShape } from "../utils/shape";
+import levelData from "../levels/levels.json";
+
+/** Raw shape entry in levels.json: a preset at a size, or an explicit mask. */
+interface RawShape {
+  rows?: number;
+  cols?: number;
+  preset?: string;
+  mask?: string;
+}
+
+function isPositiveInt(n: unknown): n is number {
+  return Number.isInteger(n) && (n as number) > 0;
+}
+
+function parseShape(raw: RawShape): BoardShape {
+  if (raw.mask !== undefined) return parseMask(raw.mask);
+  const preset = raw.preset ?? "rect";
+  if (preset !== "rect" && preset !== "cross" && preset !== "diamond") {
+    throw new Error(`Unknown board preset: ${preset}`);
+  }
+  const shape = presetShape(preset, raw.rows ?? 0, raw.cols ?? 0);
+  if (!isValidShape(shape)) throw new Error(`Invalid board size: ${raw.rows}x${raw.cols}`);
+  return shape;
+}
+
+function parseGoal(raw: Record<string, unknown>, colors: number): LevelGoal {
+  switch (raw.type) {
+    case "collect": {
+      const color = COLOR_NAMES.indexOf(String(raw.color));
+      if (color < 0 || color >= colors) throw new Error(`Color not in play: ${String(raw.color)}`);
+      if (!isPositiveInt(raw.count)) throw new Error("collect goal needs a positive count");
+      return { type: "collect", color: color as TileType, count: raw.count };
+    }
+    case "score":
+      if (!isPositiveInt(raw.target)) throw new Error("score goal needs a positive target");
+      return { type: "score", target: raw.target };
+    case "bombs":
+      if (raw.bomb !== "line" && raw.bomb !== "color" && raw.bomb !== "area") {
+        throw new Error("bombs goal needs bomb: line|color|area");
+      }
+      if (!isPositiveInt(raw.count)) throw new Error("bombs goal needs a positive count");
+      return { type: "bombs", bomb: raw.bomb, count: raw.count };
+    case "clear":
+      if (raw.blocker !== "ice" && raw.blocker !== "stone") throw new Error("clear goal needs blocker: ice|stone");
+      if (!isPositiveInt(raw.count)) throw new Error("clear goal needs a positive count");
+      return { type: "clear", blocker: raw.blocker, count: raw.count };
+    default:
+      throw new Error(`Unknown goal type: ${String(raw.type)}`);
+  }
+}
+
+/** Validate one level entry from JSON. Throws with the level id on bad data. */
+export function parseLevel(raw: Record<string, unknown>): LevelDefinition {
+  try {
+    if (!isPositiveInt(raw.id)) throw new Error("missing id");
+    if (raw.moves !== undefined && !isPositiveInt(raw.moves)) throw new Error("bad moves");
+    if (raw.timeLimit !== undefined && !isPositiveInt(raw.timeLimit)) throw new Error("bad timeLimit");
+    if (raw.moves === undefined && raw.timeLimit === undefined) throw new Error("needs moves or timeLimit");
+    if (raw.colors !== undefined && (!isPositiveInt(raw.colors) || raw.colors > TILE_TYPE_COUNT)) {
+      throw new Error("bad colors");
+    }
+    if (!Array.isArray(raw.goals) || raw.goals.length === 0) throw new Error("needs goals");
+
+    const colors = (raw.colors as number | undefined) ?? TILE_TYPE_COUNT;
+    const layout = raw.board !== undefined ? parseBoardLayout(String(raw.board)) : undefined;
+    if (layout && (raw.shape !== undefined || raw.blockers !== undefined)) {
+      throw new Error("board already sets the shape and blockers");
+    }
+    const shape = layout?.shape ?? (raw.shape ? parseShape(raw.shape as RawShape) : undefined);
+    return {
+      id: raw.id,
+      name: String(raw.name ?? `Level ${raw.id}`),
+      moves: raw.moves as number | undefined,
+      timeLimit: raw.timeLimit as number | undefined,
+      colors: raw.colors as number | undefined,
+      seed: Number.isInteger(raw.seed) ? (raw.seed as number) : undefined,
+      shape,
+      blockers: raw.blockers !== undefined
+        ? parseBlockers(String(raw.blockers), shape ?? DEFAULT_SHAPE)
+        : undefined,
+      layout,
+      goals: (raw.goals as Record<string, unknown>[]).map((g) => parseGoal(g, colors)),
+    };
+  } catch (err) {
+    throw new Error(`Level ${String(raw.id)}: ${(err as Error).message}`);
+  }
+}
+
+/** All levels shipped with the game, in play order. */
+export const LEVELS: LevelDefinition[] = (levelData as Record<string, unknown>[]).map(parseLevel);
+
+export function findLevel(id: number): LevelDefinition | null {
+  return LEVELS.find((l) => l.id === id) ?? null;
+}
+
+/** Short label for a goal, e.g. "Collect red" or "Score". */
+export function describeGoal(goal: LevelGoal): string {
+  switch (goal.type) {
+    case "collect":
+      return `Collect ${COLOR_NAMES[goal.color]}`;
+    case "score":
+      return "Score";
+    case "bombs":
+      return `Make ${goal.bomb} bombs`;
+    case "clear":
+      return goal.blocker === "ice" ? "Melt ice" : "Break stones";
+  }
+}
+
+function goalTarget(goal: LevelGoal): number {
+  return goal.type === "score" ? goal.target : goal.count;
+}
+
+/**
+ * Tracks progress through a level from the GameEngine's events.
+ * Pure state — the HUD and Board read from it.
+ */
+export class LevelTracker {
+  readonly level: LevelDefinition;
+  private progress: LevelProgress;
+
+  constructor(level: LevelDefinition, progress?: LevelProgress) {
+    this.level = level;
+    this.progress = progress
+      ? { ...progress, goals: [...progress.goals] }
+      : { movesUsed: 0, timeLeft: level.timeLimit ?? null, goals: level.goals.map(() => 0) };
+  }
+
+  /** Copy of the current progress, for saving. */
+  get state(): LevelProgress {
+    return { ...this.progress, goals: [...this.progress.goals] };
+  }
+
+  get movesLeft(): number | null {
+    return this.level.moves === undefined ? null : Math.max(0, this.level.moves - this.progress.movesUsed);
+  }
+
+  get timeLeft(): number | null {
+    return this.progress.timeLeft;
+  }
+
+  /** Current and target count of each goal, in definition order. */
+  get goals(): { goal: LevelGoal; current: number; target: number }[] {
+    return this.level.goals.map((goal, i) => ({
+      goal,
+      current: Math.min(this.progress.goals[i], goalTarget(goal)),
+      target: goalTarget(goal),
+    }));
+  }
+
+  /** True once every goal is met. */
+  get complete(): boolean {
+    return this.goals.every((g) => g.current >= g.target);
+  }
+
+  /** True when no moves or time remain. */
+  get exhausted(): boolean {
+    return this.movesLeft === 0 || this.progress.timeLeft === 0;
+  }
+
+  /** Count down a timed level. */
+  advanceTime(seconds: number): void {
+    if (this.progress.timeLeft === null) return;
+    this.progress.timeLeft = Math.max(0, this.progress.timeLeft - seconds);
+  }
+
+  /** Fold one engine event into the goal counts. */
+  handle(event: GameEvent): void {
+    switch (event.type) {
+      case "swapped":
+        this.progress.movesUsed++;
+        break;
+      case "swapReverted":
+        this.progress.movesUsed--;
+        break;
+      case "matched":
+        for (const c of event.destroyed) this.collect(c.cell);
+        break;
+      case "bombDetonated":
+        for (const c of event.targets) this.collect(c.cell);
+        break;
+      case "destroyed":
+        this.collect(event.cell);
+        break;
+      case "bonusSpawned":
+        if (event.replaced) this.collect(event.replaced);
+        this.level.goals.forEach((goal, i) => {
+          if (goal.type !== "bombs") return;
+          const type = { line: TileType.LineBomb, color: TileType.ColorBomb, area: TileType.AreaBomb }[goal.bomb];
+          if (event.cell.type === type) this.progress.goals[i]++;
+        });
+        break;
+      case "scored":
+        this.level.goals.forEach((goal, i) => {
+          if (goal.type === "score") this.progress.goals[i] = event.total;
+        });
+        break;
+      case "iceCracked":
+        for (const c of event.cells) {
+          if (c.layers === 0) this.clearBlocker("ice");
+        }
+        break;
+      case "stonesBroken":
+        event.stones.forEach(() => this.clearBlocker("stone"));
+        break;
+    }
+  }
+
+  private collect(cell: CellState): void {
+    if (cell.type === TileType.Stone) this.clearBlocker("stone");
+    this.level.goals.forEach((goal, i) => {
+      if (goal.type === "collect" && goal.color === cell.type) this.progress.goals[i]++;
+    });
+  }
+
+  private clearBlocker(blocker: "ice" | "stone"): void {
+    this.level.goals.forEach((goal, i) => {
+      if (goal.type === "clear" && goal.blocker === blocker) this.progress.goals[i]++;
+    });
+  }
+}
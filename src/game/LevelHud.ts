@@ -0,0 +1,38 @@
+import type { LevelTracker } from "./Level";
+import { describeGoal } from "./Level";
+
+/** DOM panel under the score showing the level's limits and goal progress. */
+export class LevelHud {
+  private el: HTMLElement;
+
+  constructor() {
+    this.el = document.getElementById("level-hud")!;
+  }
+
+  /** Show progress for `tracker`, or hide the panel in endless mode. */
+  render(tracker: LevelTracker | null): void {
+    if (!tracker) {
+      this.el.classList.remove("show");
+      return;
+    }
+
+    const parts: string[] = [`<div class="level-name">${tracker.level.name}</div>`];
+    const limits: string[] = [];
+    if (tracker.movesLeft !== null) limits.push(`Moves: ${tracker.movesLeft}`);
+    if (tracker.timeLeft !== null) limits.push(`Time: ${formatTime(tracker.timeLeft)}`);
+    parts.push(`<div class="level-limits">${limits.join(" · ")}</div>`);
+
+    for (const g of tracker.goals) {
+      const done = g.current >= g.target ? " done" : "";
+      parts.push(`<div class="level-goal${done}">${describeGoal(g.goal)}: ${g.current}/${g.target}</div>`);
+    }
+
+    this.el.innerHTML = parts.join("");
+    this.el.classList.add("show");
+  }
+}
+
+function formatTime(seconds: number): string {
+  const s = Math.ceil(seconds);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, "0")}`;
+}
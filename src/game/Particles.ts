@@ -0,0 +1,180 @@
+import { Container, Sprite, Texture } from "pixi.js";
+import { MAX_PARTICLES, TILE_SIZE } from "../constants";
+import type { Animator } from "./Animator";
+
+interface Particle {
+  sprite: Sprite;
+  vx: number;
+  vy: number;
+  /** Downward acceleration (px/s²). */
+  gravity: number;
+  spin: number;
+  life: number;
+  maxLife: number;
+}
+
+/** A point on the board, in the board container's pixels. */
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Pooled particle effects drawn on a layer above the tiles and stepped on
+ * the Animator's clock (so they freeze with the pause menu). At most
+ * MAX_PARTICLES are alive at once; extra requests are dropped. Disabled
+ * entirely with reduced motion.
+ */
+export class ParticleSystem {
+  readonly layer: Container;
+  private live: Particle[] = [];
+  private pool: Sprite[] = [];
+  private enabled = true;
+  /** Container rattled by `shake`, and the remaining time and strength of the shake. */
+  private shakeTarget: Container;
+  private shakeLeft = 0;
+  private shakeDuration = 0;
+  private shakeStrength = 0;
+
+  constructor(animator: Animator, shakeTarget: Container) {
+    this.layer = new Container();
+    this.shakeTarget = shakeTarget;
+    animator.onFrame((dt) => this.update(dt));
+  }
+
+  /** Turn effects on or off; turning them off clears any in flight. */
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    if (!enabled) this.clear();
+  }
+
+  /** Remove every particle and stop any shake. */
+  clear(): void {
+    for (const p of this.live) this.release(p.sprite);
+    this.live = [];
+    this.shakeLeft = 0;
+    this.shakeTarget.pivot.set(0, 0);
+  }
+
+  /** Tinted shards thrown up and out of a destroyed tile. */
+  shards(at: Point, color: number, count = 6): void {
+    for (let i = 0; i < count; i++) {
+      const angle = -Math.PI / 2 + (Math.random() - 0.5) * Math.PI * 1.4;
+      const speed = 120 + Math.random() * 160;
+      this.emit(at, {
+        vx: Math.cos(angle) * speed,
+        vy: Math.sin(angle) * speed,
+        gravity: 900,
+        size: TILE_SIZE * (0.1 + Math.random() * 0.1),
+        color,
+        life: 0.45 + Math.random() * 0.25,
+      });
+    }
+  }
+
+  /** Sparks scattered along a beam from `from` to `to`, flying off sideways. */
+  sparks(from: Point, to: Point, color: number, count = 24): void {
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const len = Math.hypot(dx, dy) || 1;
+    // Unit normal to the beam
+    const nx = -dy / len;
+    const ny = dx / len;
+    for (let i = 0; i < count; i++) {
+      const t = Math.random();
+      const side = Math.random() < 0.5 ? -1 : 1;
+      const speed = 80 + Math.random() * 220;
+      this.emit({ x: from.x + dx * t, y: from.y + dy * t }, {
+        vx: nx * side * speed + (dx / len) * (Math.random() - 0.5) * 120,
+        vy: ny * side * speed + (dy / len) * (Math.random() - 0.5) * 120,
+        gravity: 300,
+        size: TILE_SIZE * (0.05 + Math.random() * 0.06),
+        color: Math.random() < 0.4 ? 0xffffff : color,
+        life: 0.3 + Math.random() * 0.3,
+      });
+    }
+  }
+
+  /** An even ring of particles bursting out from a point. */
+  burst(at: Point, color: number, count = 32): void {
+    for (let i = 0; i < count; i++) {
+      const angle = (i / count) * Math.PI * 2;
+      const speed = 260 + Math.random() * 80;
+      this.emit(at, {
+        vx: Math.cos(angle) * speed,
+        vy: Math.sin(angle) * speed,
+        gravity: 0,
+        size: TILE_SIZE * 0.12,
+        color: i % 2 === 0 ? color : 0xffffff,
+        life: 0.6,
+      });
+    }
+  }
+
+  /** Rattle the target container, easing off over `duration` seconds. */
+  shake(strength: number, duration: number): void {
+    if (!this.enabled) return;
+    this.shakeStrength = Math.max(strength, this.shakeLeft > 0 ? this.shakeStrength : 0);
+    this.shakeDuration = duration;
+    this.shakeLeft = duration;
+  }
+
+  private emit(
+    at: Point,
+    opts: { vx: number; vy: number; gravity: number; size: number; color: number; life: number },
+  ): void {
+    if (!this.enabled || this.live.length >= MAX_PARTICLES) return;
+    const sprite = this.pool.pop() ?? this.createSprite();
+    sprite.position.set(at.x, at.y);
+    sprite.width = opts.size;
+    sprite.height = opts.size;
+    sprite.tint = opts.color;
+    sprite.alpha = 1;
+    sprite.rotation = Math.random() * Math.PI;
+    sprite.visible = true;
+    this.live.push({
+      sprite,
+      vx: opts.vx,
+      vy: opts.vy,
+      gravity: opts.gravity,
+      spin: (Math.random() - 0.5) * 12,
+      life: opts.life,
+      maxLife: opts.life,
+    });
+  }
+
+  private createSprite(): Sprite {
+    const sprite = new Sprite(Texture.WHITE);
+    sprite.anchor.set(0.5);
+    this.layer.addChild(sprite);
+    return sprite;
+  }
+
+  private release(sprite: Sprite): void {
+    sprite.visible = false;
+    this.pool.push(sprite);
+  }
+
+  private update(dt: number): void {
+    for (let i = this.live.length - 1; i >= 0; i--) {
+      const p = this.live[i];
+      p.life -= dt;
+      if (p.life <= 0) {
+        this.release(p.sprite);
+        this.live.splice(i, 1);
+        continue;
+      }
+      p.vy += p.gravity * dt;
+      p.sprite.x += p.vx * dt;
+      p.sprite.y += p.vy * dt;
+      p.sprite.rotation += p.spin * dt;
+      p.sprite.alpha = p.life / p.maxLife;
+    }
+
+    if (this.shakeLeft > 0) {
+      this.shakeLeft = Math.max(0, this.shakeLeft - dt);
+      const amount = this.shakeStrength * (this.shakeLeft / this.shakeDuration);
+      this.shakeTarget.pivot.set((Math.random() - 0.5) * 2 * amount, (Math.random() - 0.5) * 2 * amount);
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import type { Board } from "./Board";
+
+/**
+ * The pause overlay: opened from the toolbar button, with Escape, or
+ * automatically when the tab is hidden. While it's open the board is frozen
+ * (see Board.setPaused). Offers Resume, Restart and the settings panel.
+ */
+export class PauseMenu {
+  private board: Board;
+  private el: HTMLElement;
+  private settingsEl: HTMLElement;
+  private settingsToggle: HTMLButtonElement;
+
+  constructor(board: Board) {
+    this.board = board;
+    this.el = document.getElementById("pause")!;
+    this.settingsEl = document.getElementById("pause-settings")!;
+    this.settingsToggle = document.getElementById("pause-settings-toggle") as HTMLButtonElement;
+
+    document.getElementById("pause-open")!.addEventListener("click", () => this.open());
+    document.getElementById("pause-resume")!.addEventListener("click", () => this.close());
+    document.getElementById("pause-restart")!.addEventListener("click", () => {
+      this.close();
+      this.board.restart(this.board.setup);
+    });
+    this.settingsToggle.addEventListener("click", () => this.showSettings(this.settingsEl.hidden));
+
+    window.addEventListener("keydown", (e) => {
+      if (e.code !== "Escape") return;
+      e.preventDefault();
+      if (this.isOpen) {
+        this.close();
+      } else {
+        this.open();
+      }
+    });
+    document.addEventListener("visibilitychange", () => {
+      if (document.hidden) this.open();
+    });
+  }
+
+  get isOpen(): boolean {
+    return this.el.classList.contains("show");
+  }
+
+  /** Freeze the board and show the menu. Ignored once the game has ended. */
+  open(): void {
+    if (this.isOpen || this.board.finished) return;
+    this.board.setPaused(true);
+    this.showSettings(false);
+    this.el.classList.add("show");
+    document.getElementById("pause-resume")!.focus();
+  }
+
+  /** Hide the menu and let the board carry on where it stopped. */
+  close(): void {
+    if (!this.isOpen) return;
+    this.el.classList.remove("show");
+    this.board.setPaused(false);
+  }
+
+  private showSettings(show: boolean): void {
+    this.settingsEl.hidden = !show;
+    this.settingsToggle.setAttribute("aria-expanded", String(show));
+  }
+}
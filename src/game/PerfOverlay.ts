@@ -0,0 +1,62 @@
+import type { Ticker } from "pixi.js";
+import type { Board } from "./Board";
+
+/** How often the readout refreshes (ms). */
+const REFRESH_INTERVAL = 500;
+
+/** Chrome's non-standard heap figures; other browsers leave `performance.memory` undefined. */
+interface HeapInfo {
+  usedJSHeapSize: number;
+  jsHeapSizeLimit: number;
+}
+
+/**
+ * Corner readout of live tile count, frame rate and JS heap use, for
+ * spotting leaks and slowdowns while playing. Toggled with the backquote
+ * key, or shown from the start with ?perf in the URL.
+ */
+export class PerfOverlay {
+  private el: HTMLElement;
+  private ticker: Ticker;
+  private board: Board;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(ticker: Ticker, board: Board, visible = false) {
+    this.el = document.getElementById("perf")!;
+    this.ticker = ticker;
+    this.board = board;
+    window.addEventListener("keydown", (e) => {
+      if (e.code === "Backquote" && !e.repeat) this.setVisible(this.timer === null);
+    });
+    this.setVisible(visible);
+  }
+
+  setVisible(visible: boolean): void {
+    this.el.hidden = !visible;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (visible) {
+      this.render();
+      this.timer = setInterval(() => this.render(), REFRESH_INTERVAL);
+    }
+  }
+
+  private render(): void {
+    const { live, pooled } = this.board.tileStats;
+    const heap = (performance as Performance & { memory?: HeapInfo }).memory;
+    const memory = heap
+      ? `${formatMegabytes(heap.usedJSHeapSize)} / ${formatMegabytes(heap.jsHeapSizeLimit)} MB`
+      : "n/a";
+    this.el.textContent = [
+      `FPS: ${Math.round(this.ticker.FPS)}`,
+      `Tiles: ${live} (+${pooled} pooled)`,
+      `Heap: ${memory}`,
+    ].join("\n");
+  }
+}
+
+function formatMegabytes(bytes: number): string {
+  return (bytes / 1024 / 1024).toFixed(1);
+}
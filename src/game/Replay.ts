@@ -0,0 +1,90 @@
+import type { BoardFile, BoardShape, GridPosition, ReplayLog, SwapRequest, TileType } from "../types";
+import { fromBoardFile } from "../utils/boardFormat";
+import { DEFAULT_SHAPE, isValidShape } from "../utils/shape";
+
+/** Records every accepted swap of a game so it can be exported and replayed. */
+export class ReplayRecorder {
+  private log: ReplayLog;
+  private startTime: number;
+
+  constructor(
+    seed: number,
+    grid: (TileType | null)[][],
+    shape: BoardShape,
+    level?: number,
+    board?: BoardFile,
+    undoLimit?: number,
+  ) {
+    this.log = { version: 1, seed, shape, level, grid: grid.map((row) => [...row]), moves: [] };
+    if (board) this.log.board = board;
+    if (undoLimit !== undefined) this.log.undoLimit = undoLimit;
+    this.startTime = performance.now();
+  }
+
+  /** Continue recording a log saved earlier; new timestamps follow its last move. */
+  static resume(log: ReplayLog): ReplayRecorder {
+    const recorder = new ReplayRecorder(
+      log.seed,
+      log.grid,
+      log.shape ?? DEFAULT_SHAPE,
+      log.level,
+      log.board,
+      log.undoLimit,
+    );
+    recorder.log.moves = log.moves.map((m) => ({ ...m }));
+    const last = log.moves[log.moves.length - 1];
+    recorder.startTime -= last ? last.t : 0;
+    return recorder;
+  }
+
+  record(req: SwapRequest): void {
+    this.log.moves.push({
+      a: { ...req.a },
+      b: { ...req.b },
+      t: this.elapsed(),
+    });
+  }
+
+  recordUndo(): void {
+    this.log.moves.push({ undo: true, t: this.elapsed() });
+  }
+
+  private elapsed(): number {
+    return Math.round(performance.now() - this.startTime);
+  }
+
+  toJSON(): ReplayLog {
+    return this.log;
+  }
+}
+
+function isPosition(p: unknown): p is GridPosition {
+  const pos = p as GridPosition;
+  return typeof pos === "object" && pos !== null
+    && Number.isInteger(pos.row) && Number.isInteger(pos.col);
+}
+
+/** Parse and validate an exported replay. Throws on malformed input. */
+export function parseReplay(json: string): ReplayLog {
+  const data = JSON.parse(json) as ReplayLog;
+  if (data.version !== 1) {
+    throw new Error(`Unsupported replay version: ${String(data.version)}`);
+  }
+  if (!Number.isInteger(data.seed) || !Array.isArray(data.grid) || !Array.isArray(data.moves)) {
+    throw new Error("Malformed replay");
+  }
+  if (data.shape !== undefined && !isValidShape(data.shape)) {
+    throw new Error("Malformed replay board shape");
+  }
+  // Throws if the starting board doesn't parse
+  if (data.board !== undefined) fromBoardFile(data.board);
+  if (data.undoLimit !== undefined && (!Number.isInteger(data.undoLimit) || data.undoLimit < 0)) {
+    throw new Error("Malformed replay undo limit");
+  }
+  for (const m of data.moves) {
+    if (typeof m.t !== "number" || (!m.undo && (!isPosition(m.a) || !isPosition(m.b)))) {
+      throw new Error("Malformed replay move");
+    }
+  }
+  return data;
+}
@@ -0,0 +1,67 @@
+import type { MoveScore } from "../types";
+import { describeAward } from "./Scoring";
+
+/** What the end-of-game overlay should offer. */
+export interface ResultOptions {
+  title: string;
+  detail?: string;
+  /** Points earned by each move, listed under the detail. */
+  breakdown?: MoveScore[];
+  /** Offer a "Next Level" button that runs this. */
+  onNext?: () => void;
+}
+
+/** The full-screen overlay shown when a game or level ends. */
+export class ResultScreen {
+  private el: HTMLElement;
+  private titleEl: HTMLElement;
+  private detailEl: HTMLElement;
+  private breakdownEl: HTMLElement;
+  private nextButton: HTMLButtonElement;
+
+  /** `onRetry` runs when the player chooses to play again. */
+  constructor(onRetry: () => void) {
+    this.el = document.getElementById("game-over")!;
+    this.titleEl = document.getElementById("result-title")!;
+    this.detailEl = document.getElementById("result-detail")!;
+    this.breakdownEl = document.getElementById("result-breakdown")!;
+    this.nextButton = document.getElementById("result-next") as HTMLButtonElement;
+    document.getElementById("result-retry")!.addEventListener("click", onRetry);
+  }
+
+  show(options: ResultOptions): void {
+    this.titleEl.textContent = options.title;
+    this.detailEl.textContent = options.detail ?? "";
+    this.renderBreakdown(options.breakdown ?? []);
+    this.nextButton.hidden = !options.onNext;
+    this.nextButton.onclick = options.onNext ?? null;
+    this.el.classList.add("show");
+  }
+
+  hide(): void {
+    this.el.classList.remove("show");
+  }
+
+  /** One line per move with its total, then its awards grouped by kind. */
+  private renderBreakdown(moves: MoveScore[]): void {
+    const parts: string[] = [];
+    for (const move of moves) {
+      const total = move.awards.reduce((sum, a) => sum + a.points, 0);
+      const groups = new Map<string, { count: number; points: number }>();
+      for (const { award, points } of move.awards) {
+        const label = describeAward(award);
+        const group = groups.get(label) ?? { count: 0, points: 0 };
+        group.count++;
+        group.points += points;
+        groups.set(label, group);
+      }
+      const awards = [...groups].map(([label, g]) =>
+        `${label}${g.count > 1 ? ` ×${g.count}` : ""} +${g.points}`);
+      parts.push(
+        `<div class="move"><span>Move ${move.move}</span><span>+${total}</span></div>`
+        + `<div class="awards">${awards.join(" · ")}</div>`,
+      );
+    }
+    this.breakdownEl.innerHTML = parts.join("");
+  }
+}
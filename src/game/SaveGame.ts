@@ -0,0 +1,117 @@
+import { TileType } from "../types";
+import type { BoardShape, CellState, EngineSnapshot, LevelProgress, MoveScore, ReplayLog } from "../types";
+import { fromBoardFile, layoutColors } from "../utils/boardFormat";
+import { isPlayable, isValidShape } from "../utils/shape";
+
+const SAVE_KEY = "v-ball-save";
+/** Bump when the saved shape changes, and teach `migrate` the old one. */
+const SAVE_VERSION = 2;
+
+/** An in-progress game as stored in localStorage. */
+export interface SavedGame extends EngineSnapshot {
+  version: number;
+  seed: number;
+  shape: BoardShape;
+  /**
+   * Colors in play when saved; every regular cell must be below this or
+   * come from a hand-built starting board (`replay.board`).
+   */
+  activeColors: number;
+  undosLeft: number;
+  /** Moves so far, so a resumed game can still be exported as a replay. */
+  replay: ReplayLog;
+  /** Points of each move so far, for the end-of-game breakdown; older saves lack it. */
+  scores?: MoveScore[];
+  /** Level being played and its progress; omitted in endless mode. */
+  level?: { id: number; progress: LevelProgress };
+}
+
+export function saveGame(game: Omit<SavedGame, "version">): void {
+  try {
+    localStorage.setItem(SAVE_KEY, JSON.stringify({ version: SAVE_VERSION, ...game }));
+  } catch {
+    // Storage full or disabled — the game simply won't be resumable
+  }
+}
+
+export function clearSavedGame(): void {
+  localStorage.removeItem(SAVE_KEY);
+}
+
+/**
+ * Read the saved game, upgrading older formats.
+ * Anything unreadable or from an unknown version is discarded.
+ */
+export function loadSavedGame(): SavedGame | null {
+  const raw = localStorage.getItem(SAVE_KEY);
+  if (!raw) return null;
+
+  let game: SavedGame | null = null;
+  try {
+    game = migrate(JSON.parse(raw));
+  } catch {
+    game = null;
+  }
+  if (!game || !isValid(game)) {
+    clearSavedGame();
+    return null;
+  }
+  return game;
+}
+
+/** Upgrade a parsed save to SAVE_VERSION, or return null if that isn't possible. */
+function migrate(data: { version?: unknown }): SavedGame | null {
+  // Version 1 predates ice: no cell had any
+  if (data.version === 1) {
+    const old = data as Omit<SavedGame, "ice">;
+    data = { ...old, version: 2, ice: old.cells.map((row) => row.map(() => 0)) } as SavedGame;
+  }
+  if (data.version === SAVE_VERSION) return data as SavedGame;
+  return null;
+}
+
+/** Highest color count a cell may use: the active colors, or more if the starting board had them. */
+function colorLimit(game: SavedGame): number {
+  if (!game.replay.board) return game.activeColors;
+  try {
+    return Math.max(game.activeColors, layoutColors(fromBoardFile(game.replay.board)));
+  } catch {
+    return -1;
+  }
+}
+
+const isColor = (type: unknown, colors: number): boolean =>
+  Number.isInteger(type) && (type as number) >= 0 && (type as number) < colors;
+
+function isValidCell(cell: CellState | null, colors: number): boolean {
+  if (cell === null) return true;
+  if (cell.locked !== undefined && typeof cell.locked !== "boolean") return false;
+  // Bombs from a hand-built board may have no base color
+  const base = cell.baseType === undefined || isColor(cell.baseType, colors);
+  if (cell.type === TileType.LineBomb) {
+    return (cell.orientation === "horizontal" || cell.orientation === "vertical") && base;
+  }
+  if (cell.type === TileType.AreaBomb) return base;
+  if (cell.type === TileType.ColorBomb || cell.type === TileType.Stone) return true;
+  return isColor(cell.type, colors);
+}
+
+function isValid(game: SavedGame): boolean {
+  if (typeof game.replay !== "object" || game.replay === null) return false;
+  const colors = colorLimit(game);
+  return Number.isInteger(game.seed)
+    && Number.isInteger(game.score)
+    && Number.isInteger(game.rngState)
+    && Number.isInteger(game.undosLeft)
+    && (game.scores === undefined || Array.isArray(game.scores))
+    && (game.level === undefined || (Number.isInteger(game.level.id)
+      && typeof game.level.progress === "object" && Array.isArray(game.level.progress.goals)))
+    && typeof game.shape === "object" && game.shape !== null && isValidShape(game.shape)
+    && Array.isArray(game.cells) && game.cells.length === game.shape.rows
+    && game.cells.every((row, r) => Array.isArray(row) && row.length === game.shape.cols
+      && row.every((cell, c) => (isPlayable(game.shape, r, c) || cell === null)
+        && isValidCell(cell, colors)))
+    && Array.isArray(game.ice) && game.ice.length === game.shape.rows
+    && game.ice.every((row) => Array.isArray(row) && row.length === game.shape.cols
+      && row.every((layers) => Number.isInteger(layers) && layers >= 0));
+}
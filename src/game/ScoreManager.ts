@@ -1,13 +1,8 @@
-import { POINTS_PER_TILE, COMBO_MULTIPLIER } from "../constants";
-import { TILE_TYPE_COUNT } from "../types";
-
-const STARTING_COLORS = 4;
-const POINTS_PER_NEW_COLOR = 3000;
 const BEST_SCORE_KEY = "v-ball-best-score";
 
+/** Displays the running score and persists the best score. */
 export class ScoreManager {
   private _score = 0;
-  private _combo = 0;
   private _best: number;
   private el: HTMLElement;
   private bestEl: HTMLElement;
@@ -23,20 +18,9 @@ export class ScoreManager {
     return this._score;
   }
 
-  get activeColors(): number {
-    return Math.min(TILE_TYPE_COUNT, STARTING_COLORS + Math.floor(this._score / POINTS_PER_NEW_COLOR));
-  }
-
-  /** Call at the start of each player-initiated swap. */
-  resetCombo(): void {
-    this._combo = 0;
-  }
-
-  /** Award points for a set of matched tiles. Increments combo. */
-  addMatch(tileCount: number): void {
-    const multiplier = Math.pow(COMBO_MULTIPLIER, this._combo);
-    this._score += Math.round(tileCount * POINTS_PER_TILE * multiplier);
-    this._combo++;
+  /** Show a new running total (from a GameEngine `scored` event). */
+  setScore(total: number): void {
+    this._score = total;
     if (this._score > this._best) {
       this._best = this._score;
       localStorage.setItem(BEST_SCORE_KEY, String(this._best));
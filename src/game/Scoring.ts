@@ -0,0 +1,60 @@
+import {
+  AREA_BOMB_POINTS,
+  BOMB_COMBO_POINTS,
+  CASCADE_POINTS,
+  CHAIN_POINTS,
+  COLOR_BOMB_POINTS,
+  LINE_BOMB_POINTS,
+  MIN_MATCH,
+  POINTS_PER_TILE,
+} from "../constants";
+import type { ScoreAward } from "../types";
+
+/**
+ * Points for one award. Every kind has its own rule, so bombs, cascades
+ * and long matches never feed into each other.
+ */
+export function scoreAward(award: ScoreAward): number {
+  switch (award.kind) {
+    case "match":
+      // Each tile past the minimum raises the per-tile value: 3 → 30, 4 → 80, 5 → 150
+      return award.length * POINTS_PER_TILE * (award.length - MIN_MATCH + 1);
+    case "cascade":
+      return CASCADE_POINTS * award.level;
+    case "lineBomb":
+      return LINE_BOMB_POINTS;
+    case "areaBomb":
+      return AREA_BOMB_POINTS;
+    case "colorBomb":
+      return COLOR_BOMB_POINTS + award.cleared * POINTS_PER_TILE;
+    case "blast":
+      return award.cleared * POINTS_PER_TILE;
+    case "combo":
+      return BOMB_COMBO_POINTS[award.combo];
+    case "chain":
+      // The 2nd clear adds 1x, the 3rd 2x, ...: 2 → 25, 3 → 75, 4 → 150
+      return CHAIN_POINTS * (award.clears * (award.clears - 1)) / 2;
+  }
+}
+
+/** Short label for a score breakdown, e.g. "Match 4" or "Cascade 2". */
+export function describeAward(award: ScoreAward): string {
+  switch (award.kind) {
+    case "match":
+      return `Match ${award.length}`;
+    case "cascade":
+      return `Cascade ${award.level}`;
+    case "lineBomb":
+      return "Line bomb";
+    case "areaBomb":
+      return "Area bomb";
+    case "colorBomb":
+      return "Color bomb";
+    case "blast":
+      return "Blast";
+    case "combo":
+      return `Combo ${award.combo}`;
+    case "chain":
+      return `Chain x${award.clears}`;
+  }
+}
@@ -0,0 +1,69 @@
+import { MAX_UNDO_LIMIT, UNDO_LIMIT } from "../constants";
+
+const SETTINGS_KEY = "v-ball-settings";
+
+/** Player preferences, saved across sessions. */
+export interface Settings {
+  /** Tap a tile, then a neighbour, to swap them (swipes keep working). */
+  tapToSwap: boolean;
+  /** Mixer levels, 0–1. */
+  musicVolume: number;
+  sfxVolume: number;
+  musicMuted: boolean;
+  sfxMuted: boolean;
+  /** Colorblind-safe palette with bold filled glyphs. */
+  colorblind: boolean;
+  /** Black board with outlined tiles. */
+  highContrast: boolean;
+  /** Faster swaps and falls, and no beam/laser/flash, particle or shake effects. */
+  reducedMotion: boolean;
+  /** Id of the board skin (see Theme.ts). */
+  theme: string;
+  /** Undos each game starts with, 0–MAX_UNDO_LIMIT. */
+  undoLimit: number;
+}
+
+const DEFAULT_SETTINGS: Settings = {
+  tapToSwap: false,
+  musicVolume: 0.5,
+  sfxVolume: 0.8,
+  musicMuted: false,
+  sfxMuted: false,
+  colorblind: false,
+  highContrast: false,
+  theme: "classic",
+  undoLimit: UNDO_LIMIT,
+  reducedMotion: typeof matchMedia === "function" && matchMedia("(prefers-reduced-motion: reduce)").matches,
+};
+
+/** Read the saved settings; missing or malformed values fall back to the defaults. */
+export function loadSettings(): Settings {
+  let saved: Record<string, unknown> = {};
+  try {
+    saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? "{}") ?? {};
+  } catch {
+    // Unreadable — start from the defaults
+  }
+
+  const settings: Record<string, unknown> = { ...DEFAULT_SETTINGS };
+  for (const [key, fallback] of Object.entries(DEFAULT_SETTINGS)) {
+    const value = saved[key];
+    if (typeof value !== typeof fallback) continue;
+    settings[key] = typeof value === "number" ? clampNumber(key, value) : value;
+  }
+  return settings as unknown as Settings;
+}
+
+/** Keep a numeric setting in range: whole undos up to the cap, volumes 0–1. */
+function clampNumber(key: string, value: number): number {
+  if (key === "undoLimit") return Math.min(MAX_UNDO_LIMIT, Math.max(0, Math.round(value)));
+  return Math.min(1, Math.max(0, value));
+}
+
+export function saveSettings(settings: Settings): void {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage full or disabled — the choice lasts for this session only
+  }
+}
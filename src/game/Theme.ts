@@ -0,0 +1,123 @@
+import { Assets, Texture } from "pixi.js";
+import { COLOR_NAMES, TILE_COLORS, TILE_RADIUS } from "../constants";
+
+/** Everything that decides how the board looks; switchable at runtime. */
+export interface Theme {
+  id: string;
+  name: string;
+  /** Fill color of each regular TileType. */
+  palette: readonly number[];
+  /** Corner radius of tiles and their slots. */
+  tileRadius: number;
+  /** Outline symbol drawn on each regular tile. */
+  glyph: { color: number; alpha: number; width: number };
+  /**
+   * Optional image for each regular TileType, drawn instead of the colored
+   * square and glyph. Paths are relative to the page, i.e. files in public/.
+   */
+  sprites?: readonly string[];
+  bombs: {
+    /** Border, arrows and star on line and area bombs. */
+    accent: number;
+    /** Color bomb body and the ring segments around it. */
+    colorBombBody: number;
+    rainbow: readonly number[];
+  };
+  board: {
+    /** Page and canvas color behind the board. */
+    page: number;
+    panel: number;
+    panelAlpha: number;
+    /** Empty slot under each tile. */
+    slot: number;
+    slotAlpha: number;
+  };
+  effects: {
+    /** Bright core of beams, lasers and bursts, and the board-clear flash. */
+    core: number;
+    /** Selection ring and floating text. */
+    highlight: number;
+    /** Outline of floating text. */
+    textStroke: number;
+  };
+}
+
+const CLASSIC: Theme = {
+  id: "classic",
+  name: "Classic",
+  palette: TILE_COLORS,
+  tileRadius: TILE_RADIUS,
+  glyph: { color: 0xffffff, alpha: 0.85, width: 2.5 },
+  bombs: {
+    accent: 0xffffff,
+    colorBombBody: 0x222222,
+    rainbow: [0xe74c3c, 0xf39c12, 0xf1c40f, 0x2ecc71, 0x3498db, 0x9b59b6],
+  },
+  board: { page: 0x1a1a2e, panel: 0x16213e, panelAlpha: 0.8, slot: 0x0f3460, slotAlpha: 0.5 },
+  effects: { core: 0xffffff, highlight: 0xffffff, textStroke: 0x1a1a2e },
+};
+
+const CANDY: Theme = {
+  id: "candy",
+  name: "Candy",
+  palette: [0xff6b81, 0x70a1ff, 0x7bed9f, 0xffd86b, 0xc38dff, 0xffa45c, 0xff9ff3],
+  tileRadius: 24,
+  glyph: { color: 0xffffff, alpha: 0.95, width: 3 },
+  bombs: {
+    accent: 0xfff5fa,
+    colorBombBody: 0x5b2a4a,
+    rainbow: [0xff6b81, 0xffa45c, 0xffd86b, 0x7bed9f, 0x70a1ff, 0xc38dff],
+  },
+  board: { page: 0x3d1f3a, panel: 0x5b2a52, panelAlpha: 0.85, slot: 0x7d3a70, slotAlpha: 0.45 },
+  effects: { core: 0xfff5fa, highlight: 0xfff5fa, textStroke: 0x3d1f3a },
+};
+
+const NEON: Theme = {
+  id: "neon",
+  name: "Neon",
+  palette: [0xff2e63, 0x08d9d6, 0x39ff14, 0xfff01f, 0xb537f2, 0xff8c00, 0xff6ec7],
+  tileRadius: 6,
+  glyph: { color: 0x0a0a12, alpha: 0.9, width: 3 },
+  bombs: {
+    accent: 0x0a0a12,
+    colorBombBody: 0x0a0a12,
+    rainbow: [0xff2e63, 0xff8c00, 0xfff01f, 0x39ff14, 0x08d9d6, 0xb537f2],
+  },
+  board: { page: 0x05050a, panel: 0x0d0d1a, panelAlpha: 1, slot: 0x1a1a33, slotAlpha: 0.9 },
+  effects: { core: 0xe0ffff, highlight: 0x08d9d6, textStroke: 0x05050a },
+};
+
+/** Faceted gem sprites from public/themes/gems, over the classic colors. */
+const GEMS: Theme = {
+  ...CLASSIC,
+  id: "gems",
+  name: "Gems",
+  sprites: COLOR_NAMES.map((name) => `themes/gems/${name}.svg`),
+  board: { page: 0x14121f, panel: 0x231f36, panelAlpha: 0.9, slot: 0x2f2a48, slotAlpha: 0.6 },
+};
+
+export const THEMES: readonly Theme[] = [CLASSIC, CANDY, NEON, GEMS];
+
+export const DEFAULT_THEME = CLASSIC;
+
+/** The theme with this id, or the default one. */
+export function findTheme(id: string): Theme {
+  return THEMES.find((t) => t.id === id) ?? DEFAULT_THEME;
+}
+
+/** Load a theme's sprites; a missing image leaves that color drawn as a shape. */
+export async function loadThemeTextures(theme: Theme): Promise<(Texture | null)[]> {
+  if (!theme.sprites) return [];
+  return Promise.all(
+    theme.sprites.map((url) =>
+      Assets.load<Texture>(url).catch((err: unknown) => {
+        console.warn(`Could not load tile sprite ${url}`, err);
+        return null;
+      })),
+  );
+}
+
+/** CSS form of a 0xRRGGBB color. */
+export function cssColor(color: number): string {
+  return `#${color.toString(16).padStart(6, "0")}`;
+}
@@ -1,13 +1,46 @@
-import { Container, Graphics } from "pixi.js";
-import { TILE_SIZE, TILE_RADIUS, TILE_COLORS, CELL_SIZE, BOARD_PADDING, HINT_BLINK_INTERVAL } from "../constants";
+import { Container, Graphics, GraphicsContext, Sprite } from "pixi.js";
+import type { Texture } from "pixi.js";
+import {
+  TILE_SIZE,
+  CELL_SIZE,
+  BOARD_PADDING,
+  HINT_BLINK_INTERVAL,
+  SHAKE_DURATION,
+} from "../constants";
 import { TileType } from "../types";
 import type { BonusOrientation } from "../types";
-import type { Animator } from "./Animator";
+import type { Animator, EasingName, TweenHandle } from "./Animator";
+import { DEFAULT_THEME } from "./Theme";
+import type { Theme } from "./Theme";
+
+/** Drawing options shared by every tile (set from the theme and accessibility settings). */
+export interface TileLook {
+  theme: Theme;
+  /** Fill color of each regular TileType: the theme's, or the colorblind palette. */
+  palette: readonly number[];
+  /** The theme's loaded sprite for each regular TileType, if it has one. */
+  textures: readonly (Texture | null)[];
+  /** Draw each color's glyph large and filled, and repeat it on line bombs. */
+  boldGlyphs: boolean;
+  /** Outline every tile in black. */
+  highContrast: boolean;
+}
 
-/** Rainbow colors used for the Color Bomb visual. */
-const RAINBOW = [0xe74c3c, 0xf39c12, 0xf1c40f, 0x2ecc71, 0x3498db, 0x9b59b6];
+/**
+ * Geometry of every distinct tile face drawn under the current look, shared
+ * by all tiles that show it so each face is only built once.
+ */
+const faces = new Map<string, GraphicsContext>();
 
 export class Tile {
+  static look: TileLook = {
+    theme: DEFAULT_THEME,
+    palette: DEFAULT_THEME.palette,
+    textures: [],
+    boldGlyphs: false,
+    highContrast: false,
+  };
+
   readonly container: Container;
   tileType: TileType;
   gridRow: number;
@@ -20,19 +53,29 @@ export class Tile {
   bonusOrientation?: BonusOrientation;
 
   /**
-   * For LineBomb tiles: the underlying color of the tile that created this bomb.
-   * Used so the line bomb visually retains a color hint.
+   * For LineBomb and AreaBomb tiles: the underlying color of the tile that
+   * created this bomb. Used so the bomb visually retains a color hint.
    */
   baseColor?: number;
 
   /**
-   * For LineBomb tiles: the TileType of the color that created this bomb.
-   * Used so the line bomb can participate in matches of that color.
+   * For LineBomb and AreaBomb tiles: the TileType of the color that created
+   * this bomb.
    */
   baseType?: TileType;
 
+  /** Chain-locked: drawn wrapped in chains until a match breaks them. */
+  locked = false;
+
   private gfx: Graphics;
+  /** Theme sprite under `gfx`, created the first time one is needed. */
+  private sprite: Sprite | null = null;
+  /** Ring shown while the tile is selected in tap-to-swap mode. */
+  private selection: Graphics;
   private blinkTimer: ReturnType<typeof setInterval> | null = null;
+  /** Tweens running on this tile, and a count bumped each time they are stopped. */
+  private tweens = new Set<TweenHandle>();
+  private generation = 0;
 
   constructor(type: TileType, row: number, col: number) {
     this.tileType = type;
@@ -40,13 +83,73 @@ export class Tile {
     this.gridCol = col;
 
     this.container = new Container();
-    this.gfx = new Graphics();
+    this.gfx = new Graphics(Tile.face(this));
     this.container.addChild(this.gfx);
+    this.selection = new Graphics(Tile.face(null));
+    this.selection.visible = false;
+    this.container.addChild(this.selection);
+
+    this.draw();
+    this.setPositionFromGrid();
+  }
+
+  /**
+   * Empty the face cache, e.g. after switching the look. The old faces are
+   * returned so the caller can destroy them once no tile still shows one.
+   */
+  static retireFaces(): GraphicsContext[] {
+    const stale = [...faces.values()];
+    faces.clear();
+    return stale;
+  }
+
+  /** Shared geometry for `tile`'s face (or the selection ring for null), drawn on first use. */
+  private static face(tile: Tile | null): GraphicsContext {
+    const key = tile
+      ? `${tile.tileType}|${tile.bonusOrientation}|${tile.baseColor}|${tile.baseType}|${tile.locked}`
+      : "selection";
+    let face = faces.get(key);
+    if (!face) {
+      face = new GraphicsContext();
+      if (tile) {
+        tile.drawFace(face);
+      } else {
+        const half = TILE_SIZE / 2;
+        const { theme } = Tile.look;
+        face
+          .roundRect(-half - 3, -half - 3, TILE_SIZE + 6, TILE_SIZE + 6, theme.tileRadius + 2)
+          .stroke({ width: 4, color: theme.effects.highlight });
+      }
+      faces.set(key, face);
+    }
+    return face;
+  }
 
+  /** Turn a pooled tile into a fresh one of `type` at a new cell, as if just constructed. */
+  reset(type: TileType, row: number, col: number): void {
+    this.stopTweens();
+    this.stopBlink();
+    this.tileType = type;
+    this.gridRow = row;
+    this.gridCol = col;
+    this.bonusOrientation = undefined;
+    this.baseColor = undefined;
+    this.baseType = undefined;
+    this.locked = false;
+    this.selection.visible = false;
+    this.container.scale.set(1);
+    this.container.rotation = 0;
     this.draw();
     this.setPositionFromGrid();
   }
 
+  /** Free the tile's display objects for good; the shared faces stay cached. */
+  destroy(): void {
+    this.stopTweens();
+    this.stopBlink();
+    this.container.destroy({ children: true });
+  }
+
   /** Pixel position for a given grid cell. */
   static pixelX(col: number): number {
     return BOARD_PADDING + col * CELL_SIZE + TILE_SIZE / 2;
@@ -61,47 +164,87 @@ export class Tile {
     this.container.y = Tile.pixelY(this.gridRow);
   }
 
+  /**
+   * Stop every tween on the tile where it is, e.g. before it goes back to
+   * the pool; their promises resolve without finishing the move.
+   */
+  stopTweens(): void {
+    this.generation++;
+    for (const tween of this.tweens) tween.cancel();
+    this.tweens.clear();
+  }
+
+  /** Wait for a tween on the tile; false if `stopTweens` cut it short. */
+  private async track(tween: TweenHandle): Promise<boolean> {
+    const generation = this.generation;
+    this.tweens.add(tween);
+    await tween;
+    this.tweens.delete(tween);
+    return generation === this.generation;
+  }
+
   /** Animate swap to another grid position. */
   async animateSwap(toRow: number, toCol: number, animator: Animator, duration: number): Promise<void> {
     const tx = Tile.pixelX(toCol);
     const ty = Tile.pixelY(toRow);
-    await animator.animate(
+    const done = await this.track(animator.animate(
       this.container.position as unknown as Record<string, number>,
       { x: tx, y: ty },
       duration,
-    );
+    ));
+    if (!done) return;
     this.gridRow = toRow;
     this.gridCol = toCol;
   }
 
-  /** Animate falling to a new row. */
+  /** Animate falling to a new row, bouncing as it lands. */
   async animateFall(toRow: number, animator: Animator, duration: number): Promise<void> {
     const ty = Tile.pixelY(toRow);
-    await animator.animate(
+    const done = await this.track(animator.animate(
       this.container.position as unknown as Record<string, number>,
       { y: ty },
       duration,
-    );
-    this.gridRow = toRow;
+      { ease: "bounceOut" },
+    ));
+    if (done) this.gridRow = toRow;
   }
 
   /** Scale down + fade to destroy. */
   async animateDestroy(animator: Animator, duration: number): Promise<void> {
-    await animator.animate(
+    await this.track(animator.animate(
       this.container.scale as unknown as Record<string, number>,
       { x: 0, y: 0 },
       duration,
-    );
+    ));
   }
 
-  /** Scale up from 0 when spawning. */
-  async animateSpawn(animator: Animator, duration: number): Promise<void> {
+  /** Scale up from 0 when spawning, overshooting slightly unless another `ease` is given. */
+  async animateSpawn(animator: Animator, duration: number, ease: EasingName = "backOut"): Promise<void> {
     this.container.scale.set(0);
-    await animator.animate(
+    await this.track(animator.animate(
       this.container.scale as unknown as Record<string, number>,
       { x: 1, y: 1 },
       duration,
-    );
+      { ease },
+    ));
+  }
+
+  /** Show or hide the tap-to-swap selection ring; a selected tile is drawn slightly larger. */
+  setSelected(selected: boolean): void {
+    this.selection.visible = selected;
+    this.container.scale.set(selected ? 1.08 : 1);
+  }
+
+  /** Wiggle sideways to show the tile can't be picked or swapped there. */
+  async animateShake(animator: Animator): Promise<void> {
+    const pos = this.container.position as unknown as Record<string, number>;
+    const x = Tile.pixelX(this.gridCol);
+    const offset = TILE_SIZE * 0.1;
+    const timeline = animator.timeline();
+    for (const dx of [offset, -offset, offset / 2, 0]) {
+      timeline.to(pos, { x: x + dx }, SHAKE_DURATION / 4, { ease: "quadInOut" });
+    }
+    await this.track(timeline.play());
   }
 
   /** Start blinking this tile (hint animation). */
@@ -126,152 +269,269 @@ export class Tile {
     this.draw();
   }
 
+  /** Point the tile at its cached face, and show the theme's sprite under it for a regular tile. */
   private draw(): void {
+    this.gfx.context = Tile.face(this);
+    this.selection.context = Tile.face(null);
+
+    // Only regular colors have sprites
+    const texture = Tile.look.textures[this.tileType];
+    if (texture) {
+      this.showSprite(texture);
+    } else if (this.sprite) {
+      this.sprite.visible = false;
+    }
+  }
+
+  /** Draw this tile's face (everything but the sprite) into `g`. */
+  private drawFace(g: GraphicsContext): void {
     const half = TILE_SIZE / 2;
-    this.gfx.clear();
+    const { theme } = Tile.look;
 
-    if (this.tileType === TileType.ColorBomb) {
-      this.drawColorBomb(half);
+    if (this.tileType === TileType.Stone) {
+      this.drawStone(g, half);
       return;
     }
 
-    if (this.tileType === TileType.LineBomb) {
-      this.drawLineBomb(half);
-      return;
+    if (this.tileType === TileType.ColorBomb) {
+      this.drawColorBomb(g, half);
+    } else if (this.tileType === TileType.LineBomb) {
+      this.drawLineBomb(g, half);
+    } else if (this.tileType === TileType.AreaBomb) {
+      this.drawAreaBomb(g, half);
+    } else {
+      // Regular tile: the theme's sprite, or a colored square with a glyph
+      const texture = Tile.look.textures[this.tileType];
+      if (!texture) {
+        g.roundRect(-half, -half, TILE_SIZE, TILE_SIZE, theme.tileRadius)
+          .fill({ color: Tile.look.palette[this.tileType] });
+      }
+      this.drawOutline(g, half);
+
+      if (!texture || Tile.look.boldGlyphs) {
+        this.drawGlyph(g, this.tileType, half * (Tile.look.boldGlyphs ? 0.6 : 0.5));
+      }
     }
 
-    // Regular tile
-    const color = TILE_COLORS[this.tileType];
-    this.gfx
-      .roundRect(-half, -half, TILE_SIZE, TILE_SIZE, TILE_RADIUS)
-      .fill({ color });
+    // Bombs can be chain-locked too (e.g. on a hand-built board)
+    if (this.locked) this.drawChains(g, half);
+  }
+
+  private showSprite(texture: Texture): void {
+    if (!this.sprite) {
+      this.sprite = new Sprite();
+      this.sprite.anchor.set(0.5);
+      this.container.addChildAt(this.sprite, 0);
+    }
+    this.sprite.texture = texture;
+    this.sprite.width = TILE_SIZE;
+    this.sprite.height = TILE_SIZE;
+    this.sprite.visible = true;
+  }
 
-    this.gfx.setStrokeStyle({ width: 2.5, color: 0xffffff, alpha: 0.85 });
+  /** Black rim around the tile in high-contrast mode. */
+  private drawOutline(g: GraphicsContext, half: number): void {
+    if (!Tile.look.highContrast) return;
+    g
+      .roundRect(-half, -half, TILE_SIZE, TILE_SIZE, Tile.look.theme.tileRadius)
+      .stroke({ width: 3, color: 0x000000 });
+  }
 
-    const s = half * 0.5;
-    switch (this.tileType) {
+  /** Draw the symbol that identifies a color, `s` being its half-size. */
+  private drawGlyph(g: GraphicsContext, type: TileType, s: number): void {
+    switch (type) {
       case TileType.Red:
-        this.gfx.circle(0, 0, s).stroke();
+        g.circle(0, 0, s);
         break;
       case TileType.Blue:
-        this.gfx
+        g
           .moveTo(0, -s)
           .lineTo(s, 0)
           .lineTo(0, s)
           .lineTo(-s, 0)
-          .closePath()
-          .stroke();
+          .closePath();
         break;
       case TileType.Green:
-        this.drawStar(6, s, s * 0.5);
+        this.starPath(g, 6, s, s * 0.5);
         break;
       case TileType.Yellow:
-        this.drawHeart(s);
+        this.heartPath(g, s);
         break;
       case TileType.Purple:
-        this.gfx
+        g
           .moveTo(0, -s)
           .lineTo(s, s * 0.8)
           .lineTo(-s, s * 0.8)
-          .closePath()
-          .stroke();
+          .closePath();
         break;
       case TileType.Orange:
-        this.gfx
-          .rect(-s * 0.7, -s * 0.7, s * 1.4, s * 1.4)
-          .stroke();
+        g.rect(-s * 0.7, -s * 0.7, s * 1.4, s * 1.4);
         break;
       case TileType.Pink:
-        this.gfx
-          .rect(-s * 0.3, -s, s * 0.6, s * 2)
-          .rect(-s, -s * 0.3, s * 2, s * 0.6)
-          .stroke();
+        // One outline for the plus, so it fills cleanly
+        g.poly([
+          -s * 0.3, -s, s * 0.3, -s, s * 0.3, -s * 0.3, s, -s * 0.3, s, s * 0.3, s * 0.3, s * 0.3,
+          s * 0.3, s, -s * 0.3, s, -s * 0.3, s * 0.3, -s, s * 0.3, -s, -s * 0.3, -s * 0.3, -s * 0.3,
+        ]);
         break;
+      default:
+        return;
+    }
+
+    if (Tile.look.boldGlyphs) {
+      g.fill({ color: 0xffffff }).stroke({ width: 2.5, color: 0x000000, alpha: 0.7 });
+    } else {
+      const { glyph } = Tile.look.theme;
+      g.stroke({ width: glyph.width, color: glyph.color, alpha: glyph.alpha });
+    }
+  }
+
+  /** Draw a Stone: grey slab with a few cracks. */
+  private drawStone(g: GraphicsContext, half: number): void {
+    const radius = Tile.look.theme.tileRadius;
+    g
+      .roundRect(-half, -half, TILE_SIZE, TILE_SIZE, radius * 0.6)
+      .fill({ color: 0x6b6f76 })
+      .stroke({ width: 3, color: 0x45484d });
+
+    const s = half * 0.7;
+    g.setStrokeStyle({ width: 2, color: 0x3a3d42 });
+    g.moveTo(-s, -s * 0.3).lineTo(-s * 0.3, -s * 0.1).lineTo(-s * 0.1, -s * 0.7).stroke();
+    g.moveTo(s * 0.2, s).lineTo(s * 0.35, s * 0.35).lineTo(s, s * 0.15).stroke();
+  }
+
+  /** Draw two crossed chains over a locked tile. */
+  private drawChains(g: GraphicsContext, half: number): void {
+    const s = half * 0.9;
+    const links = 5;
+    for (const dir of [1, -1]) {
+      for (let i = 0; i < links; i++) {
+        const t = (i + 0.5) / links;
+        const x = -s + 2 * s * t;
+        const y = dir * x;
+        // Alternate link direction so the links read as interlocked
+        const [rx, ry] = i % 2 === 0 ? [half * 0.2, half * 0.12] : [half * 0.12, half * 0.2];
+        g
+          .ellipse(x, y, rx, ry)
+          .fill({ color: 0x2b2b2b, alpha: 0.35 })
+          .stroke({ width: 2.5, color: 0xc0c4c8 });
+      }
     }
   }
 
   /** Draw a Line Bomb tile: colored background with a directional arrow. */
-  private drawLineBomb(half: number): void {
+  private drawLineBomb(g: GraphicsContext, half: number): void {
     const bg = this.baseColor ?? 0x888888;
+    const radius = Tile.look.theme.tileRadius;
+    const { accent } = Tile.look.theme.bombs;
 
     // Background
-    this.gfx
-      .roundRect(-half, -half, TILE_SIZE, TILE_SIZE, TILE_RADIUS)
+    g
+      .roundRect(-half, -half, TILE_SIZE, TILE_SIZE, radius)
       .fill({ color: bg });
 
     // Bright border to signal "special"
-    this.gfx
-      .roundRect(-half, -half, TILE_SIZE, TILE_SIZE, TILE_RADIUS)
-      .stroke({ width: 3, color: 0xffffff });
+    g
+      .roundRect(-half, -half, TILE_SIZE, TILE_SIZE, radius)
+      .stroke({ width: 3, color: accent });
+    this.drawOutline(g, half);
 
     const s = half * 0.55;
 
     if (this.bonusOrientation === "horizontal") {
       // Horizontal arrows: ← →
-      this.gfx.setStrokeStyle({ width: 3, color: 0xffffff });
+      g.setStrokeStyle({ width: 3, color: accent });
       // Left arrow
-      this.gfx.moveTo(-s, 0).lineTo(s, 0).stroke();
-      this.gfx.moveTo(-s, 0).lineTo(-s * 0.5, -s * 0.4).stroke();
-      this.gfx.moveTo(-s, 0).lineTo(-s * 0.5, s * 0.4).stroke();
+      g.moveTo(-s, 0).lineTo(s, 0).stroke();
+      g.moveTo(-s, 0).lineTo(-s * 0.5, -s * 0.4).stroke();
+      g.moveTo(-s, 0).lineTo(-s * 0.5, s * 0.4).stroke();
       // Right arrow
-      this.gfx.moveTo(s, 0).lineTo(s * 0.5, -s * 0.4).stroke();
-      this.gfx.moveTo(s, 0).lineTo(s * 0.5, s * 0.4).stroke();
+      g.moveTo(s, 0).lineTo(s * 0.5, -s * 0.4).stroke();
+      g.moveTo(s, 0).lineTo(s * 0.5, s * 0.4).stroke();
     } else {
       // Vertical arrows: ↑ ↓
-      this.gfx.setStrokeStyle({ width: 3, color: 0xffffff });
-      this.gfx.moveTo(0, -s).lineTo(0, s).stroke();
-      this.gfx.moveTo(0, -s).lineTo(-s * 0.4, -s * 0.5).stroke();
-      this.gfx.moveTo(0, -s).lineTo(s * 0.4, -s * 0.5).stroke();
-      this.gfx.moveTo(0, s).lineTo(-s * 0.4, s * 0.5).stroke();
-      this.gfx.moveTo(0, s).lineTo(s * 0.4, s * 0.5).stroke();
+      g.setStrokeStyle({ width: 3, color: accent });
+      g.moveTo(0, -s).lineTo(0, s).stroke();
+      g.moveTo(0, -s).lineTo(-s * 0.4, -s * 0.5).stroke();
+      g.moveTo(0, -s).lineTo(s * 0.4, -s * 0.5).stroke();
+      g.moveTo(0, s).lineTo(-s * 0.4, s * 0.5).stroke();
+      g.moveTo(0, s).lineTo(s * 0.4, s * 0.5).stroke();
+    }
+
+    // The color's own glyph on top, so the bomb isn't told apart by hue alone
+    if (Tile.look.boldGlyphs && this.baseType !== undefined) {
+      this.drawGlyph(g, this.baseType, half * 0.32);
     }
   }
 
+  /** Draw an Area Bomb tile: colored background wrapped in a band, with a burst. */
+  private drawAreaBomb(g: GraphicsContext, half: number): void {
+    const bg = this.baseColor ?? 0x888888;
+    const radius = Tile.look.theme.tileRadius;
+    const { accent } = Tile.look.theme.bombs;
+
+    g
+      .roundRect(-half, -half, TILE_SIZE, TILE_SIZE, radius)
+      .fill({ color: bg })
+      .stroke({ width: 3, color: accent });
+    this.drawOutline(g, half);
+
+    // Wrapper band around the centre
+    const inner = half * 0.62;
+    g
+      .roundRect(-inner, -inner, inner * 2, inner * 2, radius * 0.6)
+      .stroke({ width: 3, color: accent, alpha: 0.9 });
+
+    this.starPath(g, 8, half * 0.38, half * 0.16);
+    g.stroke({ width: 2.5, color: accent });
+  }
+
   /** Draw a Color Bomb tile: rainbow background with a star. */
-  private drawColorBomb(half: number): void {
+  private drawColorBomb(g: GraphicsContext, half: number): void {
+    const { theme } = Tile.look;
+    const { rainbow } = theme.bombs;
     // Dark background
-    this.gfx
-      .roundRect(-half, -half, TILE_SIZE, TILE_SIZE, TILE_RADIUS)
-      .fill({ color: 0x222222 });
+    g
+      .roundRect(-half, -half, TILE_SIZE, TILE_SIZE, theme.tileRadius)
+      .fill({ color: theme.bombs.colorBombBody });
 
     // Rainbow ring segments
-    const segAngle = (Math.PI * 2) / RAINBOW.length;
+    const segAngle = (Math.PI * 2) / rainbow.length;
     const outer = half * 0.85;
     const inner = half * 0.55;
-    for (let i = 0; i < RAINBOW.length; i++) {
+    for (let i = 0; i < rainbow.length; i++) {
       const a1 = segAngle * i - Math.PI / 2;
       const a2 = a1 + segAngle;
-      this.gfx
+      g
         .moveTo(Math.cos(a1) * inner, Math.sin(a1) * inner)
         .lineTo(Math.cos(a1) * outer, Math.sin(a1) * outer)
         .lineTo(Math.cos(a2) * outer, Math.sin(a2) * outer)
         .lineTo(Math.cos(a2) * inner, Math.sin(a2) * inner)
         .closePath()
-        .fill({ color: RAINBOW[i] });
+        .fill({ color: rainbow[i] });
     }
 
     // White star in center
-    this.gfx.setStrokeStyle({ width: 2, color: 0xffffff });
-    this.drawStar(5, half * 0.35, half * 0.15);
+    this.starPath(g, 5, half * 0.35, half * 0.15);
+    g.stroke({ width: 2, color: theme.effects.core });
   }
 
-  private drawStar(points: number, outer: number, inner: number): void {
+  private starPath(g: GraphicsContext, points: number, outer: number, inner: number): void {
     for (let i = 0; i < points * 2; i++) {
       const r = i % 2 === 0 ? outer : inner;
       const angle = (Math.PI * i) / points - Math.PI / 2;
       const x = Math.cos(angle) * r;
       const y = Math.sin(angle) * r;
-      if (i === 0) this.gfx.moveTo(x, y);
-      else this.gfx.lineTo(x, y);
+      if (i === 0) g.moveTo(x, y);
+      else g.lineTo(x, y);
     }
-    this.gfx.closePath().stroke();
+    g.closePath();
   }
 
-  private drawHeart(s: number): void {
-    this.gfx
+  private heartPath(g: GraphicsContext, s: number): void {
+    g
       .moveTo(0, s * 0.6)
       .bezierCurveTo(-s, -s * 0.2, -s * 0.5, -s, 0, -s * 0.4)
-      .bezierCurveTo(s * 0.5, -s, s, -s * 0.2, 0, s * 0.6)
-      .stroke();
+      .bezierCurveTo(s * 0.5, -s, s, -s * 0.2, 0, s * 0.6);
   }
 }
@@ -0,0 +1,95 @@
+import type { Container } from "pixi.js";
+import { TileType } from "../types";
+import type { CellState } from "../types";
+import { Tile } from "./Tile";
+import type { TileLook } from "./Tile";
+
+/**
+ * Recycles tile views. Cleared tiles are parked here instead of being
+ * thrown away, and handed out again for the next spawn, so a long session
+ * doesn't keep allocating containers and graphics.
+ */
+export class TilePool {
+  private layer: Container;
+  /** Tiles currently on the board (or animating onto or off it). */
+  private live = new Set<Tile>();
+  private free: Tile[] = [];
+
+  constructor(layer: Container) {
+    this.layer = layer;
+  }
+
+  /** Tiles in use right now. */
+  get liveCount(): number {
+    return this.live.size;
+  }
+
+  /** Tiles parked for reuse. */
+  get freeCount(): number {
+    return this.free.length;
+  }
+
+  /**
+   * A tile showing `cell` at (row, col), added to the layer. Bombs carry their
+   * orientation and color, locked tiles their chains.
+   */
+  acquire(cell: CellState, row: number, col: number): Tile {
+    const reused = this.free.pop();
+    const tile = reused ?? new Tile(cell.type, row, col);
+    if (reused) reused.reset(cell.type, row, col);
+
+    if (cell.type === TileType.LineBomb || cell.type === TileType.AreaBomb) {
+      tile.bonusOrientation = cell.orientation;
+      tile.baseType = cell.baseType;
+      tile.baseColor = cell.baseType !== undefined ? Tile.look.palette[cell.baseType] : 0x888888;
+      tile.redraw();
+    }
+    if (cell.locked) {
+      tile.locked = true;
+      tile.redraw();
+    }
+
+    this.live.add(tile);
+    this.layer.addChild(tile.container);
+    return tile;
+  }
+
+  /** Take a tile off the board, stopping its tweens, and park it for reuse. */
+  release(tile: Tile): void {
+    if (!this.live.delete(tile)) return;
+    tile.stopTweens();
+    tile.stopBlink();
+    this.layer.removeChild(tile.container);
+    this.free.push(tile);
+  }
+
+  /** Release every live tile, including those still animating off the board. */
+  releaseAll(): void {
+    for (const tile of [...this.live]) this.release(tile);
+  }
+
+  /**
+   * Switch every tile, parked ones included, to a new look. Faces drawn for
+   * the old look are destroyed once nothing shows them any more.
+   */
+  setLook(look: TileLook): void {
+    Tile.look = look;
+    const stale = Tile.retireFaces();
+    for (const tile of [...this.live, ...this.free]) {
+      if (tile.baseType !== undefined) tile.baseColor = look.palette[tile.baseType];
+      tile.redraw();
+    }
+    for (const face of stale) face.destroy();
+  }
+
+  /**
+   * Destroy every tile, live or parked, e.g. when a new game replaces the
+   * board, along with the cached faces nothing shows any more.
+   */
+  destroy(): void {
+    for (const tile of [...this.live, ...this.free]) tile.destroy();
+    this.live.clear();
+    this.free = [];
+    for (const face of Tile.retireFaces()) face.destroy();
+  }
+}
@@ -1,7 +1,20 @@
 import { Application } from "pixi.js";
-import { BOARD_WIDTH, BOARD_HEIGHT } from "./constants";
+import { DEFAULT_COLS, DEFAULT_ROWS, MAX_GRID_SIZE, MAX_UNDO_LIMIT, MIN_GRID_SIZE } from "./constants";
+import type { BoardLayout, BoardShape } from "./types";
 import { Animator } from "./game/Animator";
 import { Board } from "./game/Board";
+import { parseSeed } from "./utils/random";
+import { parseMask, presetShape } from "./utils/shape";
+import { formatBoardLayout, parseBoardLayout, toBoardFile } from "./utils/boardFormat";
+import { parseReplay } from "./game/Replay";
+import { loadSavedGame, clearSavedGame } from "./game/SaveGame";
+import { findLevel } from "./game/Level";
+import { loadSettings, saveSettings } from "./game/Settings";
+import type { Settings } from "./game/Settings";
+import { AudioManager } from "./game/AudioManager";
+import { PauseMenu } from "./game/PauseMenu";
+import { PerfOverlay } from "./game/PerfOverlay";
+import { THEMES, cssColor, findTheme } from "./game/Theme";
 
 /** Height reserved at the top for the score bar (px, before scaling). */
 const SCORE_BAR_HEIGHT = 60;
@@ -28,27 +41,273 @@ async function main(): Promise<void> {
   const appEl = document.getElementById("app")!;
   appEl.appendChild(app.canvas as HTMLCanvasElement);
 
+  // ?seed=123 (or any text, e.g. a date for a daily challenge) replays the same game
+  const params = new URLSearchParams(location.search);
+  const seedParam = params.get("seed");
+  const seed = seedParam !== null ? parseSeed(seedParam) : undefined;
+  const shape = shapeFromParams(params);
+  // ?level=2 plays that level in objective mode
+  const levelParam = params.get("level");
+  const level = levelParam !== null ? findLevel(parseInt(levelParam, 10)) ?? undefined : undefined;
+  const layout = layoutFromParams(params);
+
+  const saved = loadSavedGame();
+  const resume = saved !== null && (await askResume());
+
+  const settings = loadSettings();
+  const audio = new AudioManager(settings);
   const animator = new Animator(app.ticker);
-  const board = new Board(animator);
+  const board = new Board(animator, audio, { seed, shape, level, layout, undoLimit: settings.undoLimit });
+  board.setUndoLimit(settings.undoLimit);
   app.stage.addChild(board.container);
 
+  if (saved && resume) {
+    board.resume(saved);
+  } else {
+    clearSavedGame();
+  }
+
   const fitBoard = (): void => {
     const availW = app.screen.width - MARGIN * 2;
     const availH = app.screen.height - SCORE_BAR_HEIGHT - MARGIN;
 
-    const scale = Math.min(availW / BOARD_WIDTH, availH / BOARD_HEIGHT, 1);
+    const scale = Math.min(availW / board.width, availH / board.height, 1);
 
     board.container.scale.set(scale);
 
     // Center horizontally; place below score bar
-    board.container.x = Math.round((app.screen.width - BOARD_WIDTH * scale) / 2);
+    board.container.x = Math.round((app.screen.width - board.width * scale) / 2);
     board.container.y = Math.round(
-      SCORE_BAR_HEIGHT + (availH - BOARD_HEIGHT * scale) / 2,
+      SCORE_BAR_HEIGHT + (availH - board.height * scale) / 2,
     );
   };
 
+  window.addEventListener("keydown", (e) => {
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "z") {
+      e.preventDefault();
+      board.undo().catch(console.error);
+    }
+  });
+
+  setupReplayControls(board);
+  setupBoardControls(board);
+  new PauseMenu(board);
+  // ?perf shows the tile count / FPS / memory readout (backquote toggles it)
+  new PerfOverlay(app.ticker, board, params.has("perf"));
+  setupToggles(board, settings);
+  setupMixer(audio, settings);
+  setupThemePicker(app, board, settings);
+  setupUndoPicker(board, settings);
+
+  board.onGameStart = fitBoard;
   fitBoard();
   window.addEventListener("resize", fitBoard);
 }
 
+/**
+ * Board layout from the URL: ?rows=9&cols=7 for the size, plus either
+ * ?shape=cross|diamond or an explicit ?mask=.##./####/####/.##.
+ * Invalid values fall back to the defaults.
+ */
+function shapeFromParams(params: URLSearchParams): BoardShape {
+  const mask = params.get("mask");
+  if (mask) {
+    try {
+      return parseMask(mask);
+    } catch (err) {
+      console.warn(err);
+    }
+  }
+
+  const size = (key: string, fallback: number): number => {
+    const n = parseInt(params.get(key) ?? "", 10);
+    return Number.isNaN(n) ? fallback : Math.min(MAX_GRID_SIZE, Math.max(MIN_GRID_SIZE, n));
+  };
+  const rows = size("rows", DEFAULT_ROWS);
+  const cols = size("cols", DEFAULT_COLS);
+  const preset = params.get("shape");
+  if (preset === "cross" || preset === "diamond") {
+    return presetShape(preset, rows, cols);
+  }
+  return presetShape("rect", rows, cols);
+}
+
+/**
+ * A hand-built starting board from ?board=RRB-/G#Bi/... (text or JSON form,
+ * URL-encoded; see utils/boardFormat.ts). Invalid boards are ignored.
+ */
+function layoutFromParams(params: URLSearchParams): BoardLayout | undefined {
+  const board = params.get("board");
+  if (!board) return undefined;
+  try {
+    return parseBoardLayout(board);
+  } catch (err) {
+    console.warn(err);
+    return undefined;
+  }
+}
+
+/** Show the resume overlay and wait for the player's choice. */
+function askResume(): Promise<boolean> {
+  const overlay = document.getElementById("resume")!;
+  overlay.classList.add("show");
+  return new Promise((resolve) => {
+    const choose = (value: boolean) => () => {
+      overlay.classList.remove("show");
+      resolve(value);
+    };
+    document.getElementById("resume-yes")!.addEventListener("click", choose(true), { once: true });
+    document.getElementById("resume-no")!.addEventListener("click", choose(false), { once: true });
+  });
+}
+
+/** Apply the saved on/off settings and let each settings button flip (and save) one. */
+function setupToggles(board: Board, settings: Settings): void {
+  const toggles = [
+    { id: "tap-mode", key: "tapToSwap", label: "Tap to swap", apply: () => board.setTapToSwap(settings.tapToSwap) },
+    { id: "colorblind", key: "colorblind", label: "Colorblind mode", apply: () => board.setAccessibility(settings) },
+    { id: "high-contrast", key: "highContrast", label: "High contrast", apply: () => board.setAccessibility(settings) },
+    { id: "reduced-motion", key: "reducedMotion", label: "Reduced motion", apply: () => board.setAccessibility(settings) },
+  ] as const;
+
+  for (const toggle of toggles) {
+    const button = document.getElementById(toggle.id) as HTMLButtonElement;
+    const render = (): void => {
+      button.textContent = `${toggle.label}: ${settings[toggle.key] ? "On" : "Off"}`;
+      button.setAttribute("aria-pressed", String(settings[toggle.key]));
+    };
+    button.addEventListener("click", () => {
+      settings[toggle.key] = !settings[toggle.key];
+      saveSettings(settings);
+      toggle.apply();
+      render();
+    });
+    render();
+  }
+  board.setTapToSwap(settings.tapToSwap);
+  board.setAccessibility(settings);
+}
+
+/** Wire the music/SFX sliders and mute buttons to the audio manager, saving each change. */
+function setupMixer(audio: AudioManager, settings: Settings): void {
+  const channels = [
+    { volume: "musicVolume", muted: "musicMuted", slider: "music-volume", mute: "music-mute" },
+    { volume: "sfxVolume", muted: "sfxMuted", slider: "sfx-volume", mute: "sfx-mute" },
+  ] as const;
+
+  for (const ch of channels) {
+    const slider = document.getElementById(ch.slider) as HTMLInputElement;
+    const mute = document.getElementById(ch.mute) as HTMLButtonElement;
+    const render = (): void => {
+      slider.value = String(Math.round(settings[ch.volume] * 100));
+      mute.textContent = settings[ch.muted] ? "Unmute" : "Mute";
+      mute.setAttribute("aria-pressed", String(settings[ch.muted]));
+    };
+    const commit = (): void => {
+      saveSettings(settings);
+      audio.setMix(settings);
+      render();
+    };
+    slider.addEventListener("input", () => {
+      settings[ch.volume] = Number(slider.value) / 100;
+      commit();
+    });
+    mute.addEventListener("click", () => {
+      settings[ch.muted] = !settings[ch.muted];
+      commit();
+    });
+    render();
+  }
+}
+
+/** Fill the theme picker, apply the saved theme and switch (and save) on change. */
+function setupThemePicker(app: Application, board: Board, settings: Settings): void {
+  const select = document.getElementById("theme") as HTMLSelectElement;
+  for (const theme of THEMES) {
+    select.add(new Option(theme.name, theme.id));
+  }
+
+  const apply = async (): Promise<void> => {
+    const theme = findTheme(settings.theme);
+    select.value = theme.id;
+    await board.setTheme(theme);
+    if (findTheme(settings.theme) !== theme) return; // picked another one while loading
+    app.renderer.background.color = theme.board.page;
+    document.body.style.background = cssColor(theme.board.page);
+  };
+  select.addEventListener("change", () => {
+    settings.theme = select.value;
+    saveSettings(settings);
+    void apply();
+  });
+  void apply();
+}
+
+/** Fill the undo limit picker and save the player's choice; it applies from the next game. */
+function setupUndoPicker(board: Board, settings: Settings): void {
+  const select = document.getElementById("undo-limit") as HTMLSelectElement;
+  for (let n = 0; n <= MAX_UNDO_LIMIT; n++) {
+    select.add(new Option(String(n), String(n)));
+  }
+  select.value = String(settings.undoLimit);
+  select.addEventListener("change", () => {
+    settings.undoLimit = parseInt(select.value, 10);
+    saveSettings(settings);
+    board.setUndoLimit(settings.undoLimit);
+  });
+}
+
+/** Wire the toolbar's replay export (JSON download) and import (file picker). */
+function setupReplayControls(board: Board): void {
+  const fileInput = document.getElementById("replay-file") as HTMLInputElement;
+
+  document.getElementById("export-replay")!.addEventListener("click", () => {
+    const blob = new Blob([JSON.stringify(board.replay)], { type: "application/json" });
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(blob);
+    link.download = `v-ball-replay-${board.seed}.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(link.href), 0);
+  });
+
+  document.getElementById("load-replay")!.addEventListener("click", () => fileInput.click());
+
+  fileInput.addEventListener("change", async () => {
+    const file = fileInput.files?.[0];
+    fileInput.value = "";
+    if (!file) return;
+    try {
+      await board.playReplay(parseReplay(await file.text()));
+    } catch (err) {
+      console.error(err);
+      alert("Could not load replay file.");
+    }
+  });
+}
+
+/** Wire the toolbar's board copy (text form to the clipboard) and paste (starts a game on it). */
+function setupBoardControls(board: Board): void {
+  document.getElementById("copy-board")!.addEventListener("click", async () => {
+    const layout = board.layout;
+    const text = layout.colors !== undefined ? JSON.stringify(toBoardFile(layout)) : formatBoardLayout(layout);
+    try {
+      await navigator.clipboard.writeText(text);
+    } catch {
+      // No clipboard access (insecure origin, denied permission): let the player copy it
+      prompt("Board:", text);
+    }
+  });
+
+  document.getElementById("paste-board")!.addEventListener("click", () => {
+    const text = prompt("Paste a board:");
+    if (!text) return;
+    try {
+      board.restart({ layout: parseBoardLayout(text) });
+    } catch (err) {
+      console.error(err);
+      alert(`Could not load board: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  });
+}
+
 main().catch(console.error);
@@ -8,6 +8,10 @@ export enum TileType {
   Pink = 6,
   LineBomb = 7,
   ColorBomb = 8,
+  /** Obstacle: never moves or matches; broken by an adjacent match or a bomb. */
+  Stone = 9,
+  /** Made from an L or T shaped match; clears the 3x3 block around it. */
+  AreaBomb = 10,
 }
 
 /** Number of regular (matchable) tile colors. */
@@ -28,6 +32,78 @@ export interface MatchGroup {
   direction: "horizontal" | "vertical";
 }
 
+/** Two bombs swapped into each other, named by their kinds in a fixed order. */
+export type BombCombo =
+  | "line+line"
+  | "line+area"
+  | "area+area"
+  | "color+line"
+  | "color+area"
+  | "color+color";
+
+/** A horizontal and a vertical match sharing a tile, forming an L, T or + shape. */
+export interface MatchIntersection {
+  horizontal: MatchGroup;
+  vertical: MatchGroup;
+  /** The shared tile. */
+  at: GridPosition;
+  shape: "L" | "T" | "cross";
+}
+
+/** Size and layout of the board. */
+export interface BoardShape {
+  rows: number;
+  cols: number;
+  /**
+   * `mask[row][col]` is false for holes that never hold a tile.
+   * Omitted for a plain rectangle.
+   */
+  mask?: boolean[][];
+}
+
+/** State of one occupied board cell, independent of how it is rendered. */
+export interface CellState {
+  type: TileType;
+  /** For LineBomb cells: which axis to clear when detonated. */
+  orientation?: BonusOrientation;
+  /** For LineBomb and AreaBomb cells: the color of the match that created the bomb. */
+  baseType?: TileType;
+  /**
+   * Chain-locked: the tile can't be swapped or fall until it is part of a
+   * match, which breaks the chain instead of clearing the tile.
+   */
+  locked?: boolean;
+}
+
+/** Obstacles placed on a level's starting board. */
+export interface BlockerLayout {
+  /** Layers of ice under each cell (0 = none); a match or bomb on the cell cracks one. */
+  ice: number[][];
+  stones: GridPosition[];
+  /** Cells whose starting tile is chain-locked. */
+  locks: GridPosition[];
+}
+
+/**
+ * A complete, specific board: every tile, bomb and blocker (see
+ * utils/boardFormat.ts for its text form). Used instead of a generated grid.
+ */
+export interface BoardLayout {
+  /** Size and holes; holes hold null in `cells`. */
+  shape: BoardShape;
+  cells: (CellState | null)[][];
+  /** Layers of ice under each cell (0 = none). */
+  ice: number[][];
+  /** Fixed color count for refills; defaults to the endless-mode progression. */
+  colors?: number;
+}
+
+/** JSON form of a BoardLayout: its text grid plus what the grid can't show. */
+export interface BoardFile {
+  board: string;
+  colors?: number;
+}
+
 export interface FallMove {
   fromRow: number;
   toRow: number;
@@ -38,3 +114,174 @@ export interface SwapRequest {
   a: GridPosition;
   b: GridPosition;
 }
+
+/** A cell emptied during a move, with what it held. */
+export interface ClearedCell extends GridPosition {
+  cell: CellState;
+}
+
+/**
+ * A tile dropped in from above the board to refill an empty cell, or grown
+ * in place where a stone or locked tile blocks the way down.
+ */
+export interface SpawnMove {
+  row: number;
+  col: number;
+  cell: CellState;
+  /** How many cells above the top row the tile starts (0 = directly above). */
+  offset: number;
+  /** Set for cells under a stone or locked tile; `offset` is then unused. */
+  inPlace?: boolean;
+}
+
+/**
+ * One step of a resolved move, in the order it happened.
+ * Produced by GameEngine and replayed by Board to drive animations.
+ */
+export type GameEvent =
+  | { type: "swapped"; a: GridPosition; b: GridPosition }
+  /** The swap made no match and was undone. */
+  | { type: "swapReverted"; a: GridPosition; b: GridPosition }
+  /** Matched tiles were cleared (bombs, bonus cells and locked tiles are excluded from `destroyed`). */
+  | { type: "matched"; groups: MatchGroup[]; destroyed: ClearedCell[] }
+  /** `replaced` is the matched tile the bonus took the place of, if still there. */
+  | { type: "bonusSpawned"; pos: GridPosition; cell: CellState; replaced: CellState | null }
+  | {
+      type: "bombDetonated";
+      bomb: "line";
+      pos: GridPosition;
+      orientation: BonusOrientation;
+      baseType?: TileType;
+      /** Non-bomb tiles cleared by the beam; hit bombs chain as their own events. */
+      targets: ClearedCell[];
+    }
+  | {
+      type: "bombDetonated";
+      bomb: "color";
+      pos: GridPosition;
+      targetType: TileType;
+      targets: ClearedCell[];
+    }
+  | {
+      type: "bombDetonated";
+      bomb: "area";
+      pos: GridPosition;
+      /** Cells cleared in each direction: 1 for a 3x3 block. */
+      radius: number;
+      baseType?: TileType;
+      targets: ClearedCell[];
+    }
+  /** `width` full rows and columns centred on `pos` (two bombs swapped together). */
+  | { type: "bombDetonated"; bomb: "cross"; pos: GridPosition; width: number; targets: ClearedCell[] }
+  | { type: "bombDetonated"; bomb: "board"; pos: GridPosition; targets: ClearedCell[] }
+  /** Two bombs were swapped into each other; the one from `a` merged into `b`. */
+  | { type: "bombsCombined"; combo: BombCombo; a: GridPosition; b: GridPosition }
+  /** The color bomb at `source` turned each listed tile into the given bomb. */
+  | { type: "bombsConverted"; source: GridPosition; bombs: (GridPosition & { cell: CellState })[] }
+  | { type: "destroyed"; pos: GridPosition; cell: CellState }
+  | { type: "fell"; moves: FallMove[] }
+  | { type: "spawned"; spawns: SpawnMove[] }
+  /** Points for one award, centred on `pos`. */
+  | { type: "scored"; award: ScoreAward; pos: GridPosition; points: number; total: number }
+  /** Ice under these cells lost a layer; `layers` is what remains. */
+  | { type: "iceCracked"; cells: (GridPosition & { layers: number })[] }
+  /** Stones next to a match broke. Stones hit by bombs are bomb targets instead. */
+  | { type: "stonesBroken"; stones: GridPosition[] }
+  /** Matched chain-locked tiles lost their chains and stay on the board. */
+  | { type: "unlocked"; positions: GridPosition[] }
+  /** No moves were left, so the existing tiles were rearranged. */
+  | { type: "shuffled"; moves: { from: GridPosition; to: GridPosition }[] }
+  /** No moves were left and no rearrangement could create one. */
+  | { type: "gameOver" };
+
+/** What a score award was given for; each kind has its own rule in Scoring.ts. */
+export type ScoreAward =
+  | { kind: "match"; length: number }
+  /** `level` 1 is the first wave of matches made by falling tiles. */
+  | { kind: "cascade"; level: number }
+  | { kind: "lineBomb" }
+  | { kind: "areaBomb" }
+  | { kind: "colorBomb"; cleared: number }
+  /** Tiles cleared by a combo's cross or the whole-board blast. */
+  | { kind: "blast"; cleared: number }
+  | { kind: "combo"; combo: BombCombo }
+  /** Several matches or bomb blasts (`clears`, at least 2) set off by one move. */
+  | { kind: "chain"; clears: number };
+
+/** Score awards earned by one move, for the end-of-game breakdown. */
+export interface MoveScore {
+  /** 1-based number of the move in the game. */
+  move: number;
+  awards: { award: ScoreAward; points: number }[];
+}
+
+/**
+ * One recorded player action: a swap, or an undo of the last swap.
+ * `t` is milliseconds since the game started.
+ */
+export type ReplayMove =
+  | (SwapRequest & { undo?: false; t: number })
+  | { undo: true; t: number };
+
+/** Everything needed to reproduce a game: its seed, starting grid and moves. */
+export interface ReplayLog {
+  version: 1;
+  seed: number;
+  /** Board layout; logs recorded before custom shapes existed omit it (plain 8x8). */
+  shape?: BoardShape;
+  /** Level id in objective mode; omitted for endless play. */
+  level?: number;
+  /** Starting grid, to check the seed still generates the same board. */
+  grid: (TileType | null)[][];
+  /** Hand-built starting board (see utils/boardFormat.ts); omitted for generated ones. */
+  board?: BoardFile;
+  /** Undos the game allowed; logs recorded before it was configurable omit it (UNDO_LIMIT). */
+  undoLimit?: number;
+  moves: ReplayMove[];
+}
+
+/** Complete engine state, captured for undo. */
+export interface EngineSnapshot {
+  cells: (CellState | null)[][];
+  /** Ice layers under each cell. */
+  ice: number[][];
+  score: number;
+  rngState: number;
+}
+
+/** One objective of a level. */
+export type LevelGoal =
+  | { type: "collect"; color: TileType; count: number }
+  | { type: "score"; target: number }
+  | { type: "bombs"; bomb: "line" | "color" | "area"; count: number }
+  /** Break this many stones, or fully melt this many iced cells. */
+  | { type: "clear"; blocker: "ice" | "stone"; count: number };
+
+/** A level in objective mode, parsed from levels.json. */
+export interface LevelDefinition {
+  id: number;
+  name: string;
+  /** Move limit. A level has this, `timeLimit`, or both. */
+  moves?: number;
+  /** Time limit in seconds. */
+  timeLimit?: number;
+  goals: LevelGoal[];
+  /** Fixed color count; defaults to the endless-mode progression. */
+  colors?: number;
+  /** Fixed board; a random seed is used when omitted. */
+  seed?: number;
+  shape?: BoardShape;
+  /** Ice, stones and chain-locked tiles on the starting board. */
+  blockers?: BlockerLayout;
+  /** Hand-built starting board, replacing the generated grid, shape and blockers. */
+  layout?: BoardLayout;
+}
+
+/** Mutable progress through a level, as saved with an in-progress game. */
+export interface LevelProgress {
+  movesUsed: number;
+  /** Seconds remaining, for timed levels. */
+  timeLeft: number | null;
+  /** Current count for each goal, in `goals` order. */
+  goals: number[];
+}
@@ -0,0 +1,45 @@
+import type { BlockerLayout, BoardShape, GridPosition } from "../types";
+import { isPlayable } from "./shape";
+
+/**
+ * Parse a blocker layout written like a board mask: rows separated by "/",
+ * one character per cell — "." nothing, "i" ice, "I" double ice, "S" stone,
+ * "L" chain-locked tile. Throws if it doesn't fit the board or puts a
+ * blocker on a hole.
+ */
+export function parseBlockers(text: string, shape: BoardShape): BlockerLayout {
+  const lines = text.trim().split("/");
+  if (lines.length !== shape.rows || lines.some((line) => line.length !== shape.cols)) {
+    throw new Error(`Blocker layout doesn't match the ${shape.rows}x${shape.cols} board`);
+  }
+
+  const layout: BlockerLayout = { ice: [], stones: [], locks: [] };
+  lines.forEach((line, row) => {
+    layout.ice[row] = [];
+    [...line].forEach((ch, col) => {
+      layout.ice[row][col] = 0;
+      if (ch === ".") return;
+      if (!isPlayable(shape, row, col)) {
+        throw new Error(`Blocker on a hole at row ${row + 1}, column ${col + 1}`);
+      }
+      const pos: GridPosition = { row, col };
+      switch (ch) {
+        case "i":
+          layout.ice[row][col] = 1;
+          break;
+        case "I":
+          layout.ice[row][col] = 2;
+          break;
+        case "S":
+          layout.stones.push(pos);
+          break;
+        case "L":
+          layout.locks.push(pos);
+          break;
+        default:
+          throw new Error(`Unknown blocker "${ch}"`);
+      }
+    });
+  });
+  return layout;
+}
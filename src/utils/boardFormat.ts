@@ -0,0 +1,162 @@
+import { TileType, TILE_TYPE_COUNT } from "../types";
+import type { BoardFile, BoardLayout, BoardShape, CellState } from "../types";
+import { isValidShape } from "./shape";
+
+const COLOR_LETTERS = "RBGYPOK";
+
+const BOMB_MARKS: Record<string, Omit<CellState, "baseType">> = {
+  "-": { type: TileType.LineBomb, orientation: "horizontal" },
+  "|": { type: TileType.LineBomb, orientation: "vertical" },
+  "@": { type: TileType.AreaBomb },
+};
+
+/** One cell: base color and/or bomb mark, or a symbol; then lock and ice. */
+const TOKEN = /([RBGYPOK]?[-|@]|[RBGYPOK*#.])(!?)(i*)/y;
+const SEPARATORS = /[\s,]*/y;
+
+/**
+ * Text form of a whole board, for bug reports, QA setups and hand-built
+ * puzzles. Rows are separated by "/" or new lines; each cell is one token,
+ * optionally separated by spaces or commas:
+ *
+ *   R B G Y P O K   red, blue, green, yellow, purple, orange, pink
+ *   R- R|           horizontal / vertical line bomb made from red
+ *   R@              area bomb made from red
+ *   -  |  @         the same bombs with no color
+ *   *               color bomb
+ *   #               stone
+ *   .               hole (no cell)
+ *
+ * followed by "!" for a chain-locked tile and one "i" per layer of ice,
+ * e.g. "RRB-/G#Bi/.*R!ii". The JSON form ({"board": "...", "colors": 5})
+ * adds a fixed color count for refills. Throws on anything malformed.
+ */
+export function parseBoardLayout(input: string): BoardLayout {
+  const text = input.trim();
+  return text.startsWith("{") ? fromBoardFile(JSON.parse(text) as BoardFile) : parseGrid(text);
+}
+
+/** Read a board in the JSON form (already parsed). Throws on anything malformed. */
+export function fromBoardFile(file: BoardFile): BoardLayout {
+  if (typeof file?.board !== "string") throw new Error("Board file needs a board string");
+  const layout = parseGrid(file.board);
+  if (file.colors !== undefined) {
+    if (!Number.isInteger(file.colors) || file.colors < 1 || file.colors > TILE_TYPE_COUNT) {
+      throw new Error(`Bad color count: ${String(file.colors)}`);
+    }
+    layout.colors = file.colors;
+  }
+  return layout;
+}
+
+/** Write a layout's grid in the text form, rows joined by `rowSeparator`. */
+export function formatBoardLayout(layout: BoardLayout, rowSeparator = "/"): string {
+  return layout.cells
+    .map((row, r) => {
+      let line = "";
+      row.forEach((cell, c) => {
+        const token = formatCell(cell, layout.ice[r][c]);
+        // A bare bomb mark would read as part of a preceding color
+        if (/^[-|@]/.test(token) && /[RBGYPOK]$/.test(line)) line += " ";
+        line += token;
+      });
+      return line;
+    })
+    .join(rowSeparator);
+}
+
+/** A layout in the JSON form; `colors` is only included when fixed. */
+export function toBoardFile(layout: BoardLayout): BoardFile {
+  const file: BoardFile = { board: formatBoardLayout(layout) };
+  if (layout.colors !== undefined) file.colors = layout.colors;
+  return file;
+}
+
+/** Colors a layout needs: its fixed count, or enough for every color it shows. */
+export function layoutColors(layout: BoardLayout): number {
+  let count = layout.colors ?? 0;
+  for (const row of layout.cells) {
+    for (const cell of row) {
+      const color = cell?.baseType ?? cell?.type;
+      if (color !== undefined && color < TILE_TYPE_COUNT) count = Math.max(count, color + 1);
+    }
+  }
+  return count;
+}
+
+function parseGrid(text: string): BoardLayout {
+  const lines = text
+    .split(/[\n/]/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+  const cells: (CellState | null)[][] = [];
+  const ice: number[][] = [];
+  lines.forEach((line, row) => {
+    cells[row] = [];
+    ice[row] = [];
+    let at = 0;
+    while (at < line.length) {
+      TOKEN.lastIndex = at;
+      const match = TOKEN.exec(line);
+      if (!match) {
+        throw new Error(`Unknown cell "${line[at]}" at row ${row + 1}, column ${cells[row].length + 1}`);
+      }
+      const [, body, lock, layers] = match;
+      const cell = parseCell(body, lock === "!");
+      if (!cell && layers) throw new Error(`Ice on a hole at row ${row + 1}, column ${cells[row].length + 1}`);
+      cells[row].push(cell);
+      ice[row].push(layers.length);
+      SEPARATORS.lastIndex = TOKEN.lastIndex;
+      SEPARATORS.exec(line);
+      at = SEPARATORS.lastIndex;
+    }
+  });
+
+  const cols = cells[0]?.length ?? 0;
+  if (cells.some((row) => row.length !== cols)) throw new Error("Board rows differ in length");
+  const shape: BoardShape = { rows: cells.length, cols };
+  if (cells.some((row) => row.includes(null))) {
+    shape.mask = cells.map((row) => row.map((cell) => cell !== null));
+  }
+  if (!isValidShape(shape)) throw new Error(`Board size out of range: ${shape.rows}x${shape.cols}`);
+  return { shape, cells, ice };
+}
+
+function parseCell(body: string, locked: boolean): CellState | null {
+  let cell: CellState | null;
+  const color = COLOR_LETTERS.indexOf(body[0]);
+  const mark = BOMB_MARKS[body[body.length - 1]];
+  if (mark) {
+    cell = { ...mark };
+    if (color >= 0) cell.baseType = color as TileType;
+  } else if (color >= 0) {
+    cell = { type: color as TileType };
+  } else {
+    cell = body === "*" ? { type: TileType.ColorBomb } : body === "#" ? { type: TileType.Stone } : null;
+  }
+
+  if (locked) {
+    if (!cell || cell.type === TileType.Stone) throw new Error(`"${body}" can't be chain-locked`);
+    cell.locked = true;
+  }
+  return cell;
+}
+
+function formatCell(cell: CellState | null, ice: number): string {
+  let token: string;
+  if (!cell) {
+    token = ".";
+  } else if (cell.type === TileType.ColorBomb) {
+    token = "*";
+  } else if (cell.type === TileType.Stone) {
+    token = "#";
+  } else if (cell.type === TileType.LineBomb || cell.type === TileType.AreaBomb) {
+    const base = cell.baseType !== undefined ? COLOR_LETTERS[cell.baseType] : "";
+    const mark = cell.type === TileType.AreaBomb ? "@" : cell.orientation === "vertical" ? "|" : "-";
+    token = base + mark;
+  } else {
+    token = COLOR_LETTERS[cell.type];
+  }
+  return token + (cell?.locked ? "!" : "") + "i".repeat(ice);
+}
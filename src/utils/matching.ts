@@ -1,122 +1,156 @@
-import { GRID_COLS, GRID_ROWS, MIN_MATCH } from "../constants";
-import type { GridPosition, MatchGroup } from "../types";
+import { MIN_MATCH } from "../constants";
+import type { GridPosition, MatchGroup, MatchIntersection } from "../types";
 import { TileType } from "../types";
 
-/** Returns true for tiles that participate in matching (regular colors + line bombs). */
+/** Returns true for tiles that participate in matching (regular colors + line and area bombs). */
 function isMatchable(t: TileType | null): boolean {
-  return t !== null && t !== TileType.ColorBomb;
+  return t !== null && t !== TileType.ColorBomb && t !== TileType.Stone;
+}
+
+/** Line and area bombs match any color. */
+function isWild(t: TileType | null): boolean {
+  return t === TileType.LineBomb || t === TileType.AreaBomb;
+}
+
+/** Two line or area bombs swapped together fire a combo, no match needed. */
+function combines(x: TileType | null, y: TileType | null): boolean {
+  return isWild(x) && isWild(y);
+}
+
+/**
+ * True when the player may move the tile at (r, c).
+ * `locked` marks chain-locked tiles; empty cells and stones never move.
+ */
+function canSwap(grid: (TileType | null)[][], locked: boolean[][] | undefined, r: number, c: number): boolean {
+  if (r < 0 || r >= grid.length || c < 0 || c >= grid[0].length) return false;
+  const t = grid[r][c];
+  return t !== null && t !== TileType.Stone && !locked?.[r][c];
+}
+
+/**
+ * Walk one row or column of `length` cells (read through `at`) and report
+ * each run of MIN_MATCH or more as (start, run length). Runs are greedy:
+ * a run keeps the first non-wild color it meets, and a cell that breaks it
+ * starts the next one.
+ */
+function scanRuns(
+  length: number,
+  at: (i: number) => TileType | null,
+  onRun: (start: number, runLength: number) => void,
+): void {
+  let runStart = 0;
+  // Effective non-wild color of the current run (null = all wilds so far)
+  let runColor: TileType | null = isMatchable(at(0)) && !isWild(at(0)) ? at(0) : null;
+
+  for (let i = 1; i <= length; i++) {
+    const cell = i < length ? at(i) : null;
+
+    let continues = false;
+    if (isMatchable(cell) && isMatchable(at(runStart))) {
+      if (isWild(cell)) {
+        continues = true;
+      } else if (runColor === null) {
+        runColor = cell;
+        continues = true;
+      } else if (cell === runColor) {
+        continues = true;
+      }
+    }
+
+    if (!continues) {
+      const runLen = i - runStart;
+      if (runLen >= MIN_MATCH && isMatchable(at(runStart))) onRun(runStart, runLen);
+      runStart = i;
+      runColor = i < length && isMatchable(cell) && !isWild(cell) ? cell : null;
+    }
+  }
 }
 
 /**
  * Scan the grid for all horizontal and vertical matches of MIN_MATCH or more.
- * LineBombs act as wildcards — they extend any color run and also match
- * each other (a row of 3+ LineBombs counts as a match).
+ * Line and area bombs act as wildcards — they extend any color run and also
+ * match each other (a row of 3+ bombs counts as a match).
+ * Null cells (empty or holes in the board) and stones break runs.
  */
 export function findMatches(grid: (TileType | null)[][]): MatchGroup[] {
   const groups: MatchGroup[] = [];
+  const rows = grid.length;
+  const cols = grid[0].length;
 
   // Horizontal runs
-  for (let r = 0; r < GRID_ROWS; r++) {
-    let runStart = 0;
-    // Effective non-wild color of the current run (null = all wilds so far)
-    let runColor: TileType | null =
-      isMatchable(grid[r][0]) && grid[r][0] !== TileType.LineBomb
-        ? grid[r][0]
-        : null;
-
-    for (let c = 1; c <= GRID_COLS; c++) {
-      const cell = c < GRID_COLS ? grid[r][c] : null;
-
-      let continues = false;
-      if (isMatchable(cell) && isMatchable(grid[r][runStart])) {
-        if (cell === TileType.LineBomb) {
-          continues = true;
-        } else if (runColor === null) {
-          runColor = cell;
-          continues = true;
-        } else if (cell === runColor) {
-          continues = true;
-        }
-      }
-
-      if (!continues) {
-        const runLen = c - runStart;
-        if (runLen >= MIN_MATCH && isMatchable(grid[r][runStart])) {
-          const positions: GridPosition[] = [];
-          for (let k = runStart; k < c; k++) {
-            positions.push({ row: r, col: k });
-          }
-          groups.push({ positions, length: runLen, direction: "horizontal" });
-        }
-        runStart = c;
-        runColor =
-          c < GRID_COLS && isMatchable(cell) && cell !== TileType.LineBomb
-            ? cell
-            : null;
+  for (let r = 0; r < rows; r++) {
+    scanRuns(cols, (c) => grid[r][c], (start, length) => {
+      const positions: GridPosition[] = [];
+      for (let k = start; k < start + length; k++) {
+        positions.push({ row: r, col: k });
       }
-    }
+      groups.push({ positions, length, direction: "horizontal" });
+    });
   }
 
   // Vertical runs
-  for (let c = 0; c < GRID_COLS; c++) {
-    let runStart = 0;
-    let runColor: TileType | null =
-      isMatchable(grid[0][c]) && grid[0][c] !== TileType.LineBomb
-        ? grid[0][c]
-        : null;
-
-    for (let r = 1; r <= GRID_ROWS; r++) {
-      const cell = r < GRID_ROWS ? grid[r][c] : null;
-
-      let continues = false;
-      if (isMatchable(cell) && isMatchable(grid[runStart][c])) {
-        if (cell === TileType.LineBomb) {
-          continues = true;
-        } else if (runColor === null) {
-          runColor = cell;
-          continues = true;
-        } else if (cell === runColor) {
-          continues = true;
-        }
-      }
-
-      if (!continues) {
-        const runLen = r - runStart;
-        if (runLen >= MIN_MATCH && isMatchable(grid[runStart][c])) {
-          const positions: GridPosition[] = [];
-          for (let k = runStart; k < r; k++) {
-            positions.push({ row: k, col: c });
-          }
-          groups.push({ positions, length: runLen, direction: "vertical" });
-        }
-        runStart = r;
-        runColor =
-          r < GRID_ROWS && isMatchable(cell) && cell !== TileType.LineBomb
-            ? cell
-            : null;
+  for (let c = 0; c < cols; c++) {
+    scanRuns(rows, (r) => grid[r][c], (start, length) => {
+      const positions: GridPosition[] = [];
+      for (let k = start; k < start + length; k++) {
+        positions.push({ row: k, col: c });
       }
-    }
+      groups.push({ positions, length, direction: "vertical" });
+    });
   }
 
   return groups;
 }
 
 /**
- * Check whether any single adjacent swap on the grid would produce a match.
+ * Pair up crossing horizontal and vertical groups from `findMatches`.
+ * A group can appear in several intersections (e.g. a row crossed by two columns).
  */
-export function hasValidMoves(grid: (TileType | null)[][]): boolean {
-  for (let r = 0; r < GRID_ROWS; r++) {
-    for (let c = 0; c < GRID_COLS; c++) {
+export function findIntersections(groups: MatchGroup[]): MatchIntersection[] {
+  const found: MatchIntersection[] = [];
+  const samePos = (p: GridPosition, q: GridPosition) => p.row === q.row && p.col === q.col;
+  const isEnd = (positions: GridPosition[], i: number) => i === 0 || i === positions.length - 1;
+
+  for (const horizontal of groups) {
+    if (horizontal.direction !== "horizontal") continue;
+    for (const vertical of groups) {
+      if (vertical.direction !== "vertical") continue;
+      const hi = horizontal.positions.findIndex((p) => vertical.positions.some((q) => samePos(p, q)));
+      if (hi < 0) continue;
+      const at = horizontal.positions[hi];
+      const vi = vertical.positions.findIndex((q) => samePos(q, at));
+      const hEnd = isEnd(horizontal.positions, hi);
+      const vEnd = isEnd(vertical.positions, vi);
+      const shape = hEnd && vEnd ? "L" : hEnd || vEnd ? "T" : "cross";
+      found.push({ horizontal, vertical, at, shape });
+    }
+  }
+  return found;
+}
+
+/**
+ * Check whether any single adjacent swap on the grid would produce a match
+ * (or combine two bombs).
+ * Null cells, stones and tiles marked in `locked` can't be swapped.
+ */
+export function hasValidMoves(grid: (TileType | null)[][], locked?: boolean[][]): boolean {
+  const rows = grid.length;
+  const cols = grid[0].length;
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      if (!canSwap(grid, locked, r, c)) continue;
       // Color bomb can always be swapped with a neighbor
       if (grid[r][c] === TileType.ColorBomb) {
-        if (c + 1 < GRID_COLS && grid[r][c + 1] !== null) return true;
-        if (r + 1 < GRID_ROWS && grid[r + 1][c] !== null) return true;
-        if (c - 1 >= 0 && grid[r][c - 1] !== null) return true;
-        if (r - 1 >= 0 && grid[r - 1][c] !== null) return true;
+        if (canSwap(grid, locked, r, c + 1)) return true;
+        if (canSwap(grid, locked, r + 1, c)) return true;
+        if (canSwap(grid, locked, r, c - 1)) return true;
+        if (canSwap(grid, locked, r - 1, c)) return true;
         continue;
       }
+      if (canSwap(grid, locked, r, c + 1) && combines(grid[r][c], grid[r][c + 1])) return true;
+      if (canSwap(grid, locked, r + 1, c) && combines(grid[r][c], grid[r + 1][c])) return true;
       // Try swap right
-      if (c + 1 < GRID_COLS) {
+      if (canSwap(grid, locked, r, c + 1)) {
         if (grid[r][c + 1] === TileType.ColorBomb) continue; // handled above
         swap(grid, r, c, r, c + 1);
         if (findMatches(grid).length > 0) {
@@ -126,7 +160,7 @@ export function hasValidMoves(grid: (TileType | null)[][]): boolean {
         swap(grid, r, c, r, c + 1);
       }
       // Try swap down
-      if (r + 1 < GRID_ROWS) {
+      if (canSwap(grid, locked, r + 1, c)) {
         if (grid[r + 1][c] === TileType.ColorBomb) continue; // handled above
         swap(grid, r, c, r + 1, c);
         if (findMatches(grid).length > 0) {
@@ -143,19 +177,23 @@ export function hasValidMoves(grid: (TileType | null)[][]): boolean {
 /**
  * Find a valid move that produces a match, returning the two swap positions.
  * Prefers moves that produce longer matches (best hint).
+ * Tiles marked in `locked` are skipped, as in `hasValidMoves`.
  */
 export function findValidMove(
   grid: (TileType | null)[][],
+  locked?: boolean[][],
 ): { a: GridPosition; b: GridPosition } | null {
   let best: { a: GridPosition; b: GridPosition } | null = null;
   let bestLen = 0;
+  const rows = grid.length;
+  const cols = grid[0].length;
 
-  for (let r = 0; r < GRID_ROWS; r++) {
-    for (let c = 0; c < GRID_COLS; c++) {
-      if (grid[r][c] === TileType.ColorBomb) continue;
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      if (!canSwap(grid, locked, r, c) || grid[r][c] === TileType.ColorBomb) continue;
 
       // Try swap right
-      if (c + 1 < GRID_COLS && grid[r][c + 1] !== TileType.ColorBomb) {
+      if (canSwap(grid, locked, r, c + 1) && grid[r][c + 1] !== TileType.ColorBomb) {
         swap(grid, r, c, r, c + 1);
         const matches = findMatches(grid);
         if (matches.length > 0) {
@@ -168,7 +206,7 @@ export function findValidMove(
         swap(grid, r, c, r, c + 1);
       }
       // Try swap down
-      if (r + 1 < GRID_ROWS && grid[r + 1][c] !== TileType.ColorBomb) {
+      if (canSwap(grid, locked, r + 1, c) && grid[r + 1][c] !== TileType.ColorBomb) {
         swap(grid, r, c, r + 1, c);
         const matches = findMatches(grid);
         if (matches.length > 0) {
@@ -186,6 +224,227 @@ export function findValidMove(
   return best;
 }
 
+/** MoveFinder pair flag: a color bomb or two combining bombs, valid whatever it matches. */
+const PAIR_ALWAYS_VALID = 1;
+/** MoveFinder pair flag: no color bomb, so the swap is judged by what it matches (and can be a hint). */
+const PAIR_MATCHES = 2;
+
+/**
+ * Incremental version of `hasValidMoves` / `findValidMove`, giving the same
+ * answers. It caches, for every adjacent pair of cells, how much the total
+ * length of matches on the board would change if they were swapped, along
+ * with the current matched length of every row and column, and from those
+ * the set of valid swaps.
+ *
+ * A swap only changes the rows and columns its two cells lie in, so after
+ * `sync` each changed cell only rescans the pairs that touch its row or
+ * column, instead of every pair against the whole board.
+ */
+export class MoveFinder {
+  private rows = 0;
+  private cols = 0;
+  private grid: (TileType | null)[][] = [];
+  private locked: boolean[][] = [];
+  /** Total length of the runs in each row (0..rows-1) then each column (rows..rows+cols-1). */
+  private lineLength: number[] = [];
+  /** Sum of `lineLength`: the total length of every match findMatches would report. */
+  private boardLength = 0;
+  /** PAIR_* flags for pair `2 * (r * cols + c) + d`, d = 0 for (r, c)↔(r, c+1) and 1 for (r, c)↔(r+1, c). */
+  private flags = new Uint8Array(0);
+  /** How the board's total matched length changes if the pair is swapped. */
+  private gain = new Int32Array(0);
+  /** 1 for each pair that is a valid move right now. */
+  private valid = new Uint8Array(0);
+  private validCount = 0;
+  /** `valid` as a list of swaps, built on demand and dropped when the set changes. */
+  private moves: { a: GridPosition; b: GridPosition }[] | null = null;
+
+  constructor(grid: (TileType | null)[][], locked?: boolean[][]) {
+    this.sync(grid, locked);
+  }
+
+  /**
+   * Catch up with the board: only the rows and columns of cells whose type
+   * or lock changed since the last call are rescanned.
+   */
+  sync(grid: (TileType | null)[][], locked?: boolean[][]): void {
+    const rows = grid.length;
+    const cols = grid[0].length;
+    if (rows !== this.rows || cols !== this.cols) {
+      this.rebuild(grid, locked);
+      return;
+    }
+
+    const dirtyRows = new Uint8Array(rows);
+    const dirtyCols = new Uint8Array(cols);
+    let dirty = false;
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        const lock = locked?.[r][c] === true;
+        if (grid[r][c] === this.grid[r][c] && lock === this.locked[r][c]) continue;
+        this.grid[r][c] = grid[r][c];
+        this.locked[r][c] = lock;
+        dirtyRows[r] = 1;
+        dirtyCols[c] = 1;
+        dirty = true;
+      }
+    }
+    if (!dirty) return;
+
+    for (let r = 0; r < rows; r++) if (dirtyRows[r]) this.measureLine(r);
+    for (let c = 0; c < cols; c++) if (dirtyCols[c]) this.measureLine(rows + c);
+    const before = this.boardLength;
+    this.sumBoard();
+
+    // A pair reads the rows and columns of its two cells, so it's stale
+    // exactly when one of its cells is in a dirty row or column
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        const touched = (dirtyRows[r] || dirtyCols[c]) === 1;
+        if (touched || (c + 1 < cols && dirtyCols[c + 1])) this.measurePair(r, c, 0);
+        if (touched || (r + 1 < rows && dirtyRows[r + 1])) this.measurePair(r, c, 1);
+      }
+    }
+    // Matches already on the board count towards every swap (only before the board settles)
+    if (this.boardLength !== before) {
+      for (let i = 0; i < this.flags.length; i++) this.updateValid(i);
+    }
+  }
+
+  /** Same answer as `hasValidMoves` on the synced grid. */
+  hasValidMoves(): boolean {
+    return this.validCount > 0;
+  }
+
+  /** Same answer as `findValidMove` on the synced grid: the longest match, first in scan order on ties. */
+  findValidMove(): { a: GridPosition; b: GridPosition } | null {
+    let best = -1;
+    let bestLen = 0;
+    for (let i = 0; i < this.flags.length; i++) {
+      if (!(this.flags[i] & PAIR_MATCHES)) continue;
+      const total = this.boardLength + this.gain[i];
+      if (total > bestLen) {
+        bestLen = total;
+        best = i;
+      }
+    }
+    return best < 0 ? null : this.pairAt(best);
+  }
+
+  /** Every swap `hasValidMoves` would accept, in scan order; cached until a sync changes the set. */
+  validMoves(): readonly { a: GridPosition; b: GridPosition }[] {
+    if (!this.moves) {
+      this.moves = [];
+      for (let i = 0; i < this.valid.length; i++) {
+        if (this.valid[i]) this.moves.push(this.pairAt(i));
+      }
+    }
+    return this.moves;
+  }
+
+  /** Bring pair `i`'s entry in the valid set up to date with its flags and gain. */
+  private updateValid(i: number): void {
+    const valid = this.isValid(i) ? 1 : 0;
+    if (valid === this.valid[i]) return;
+    this.valid[i] = valid;
+    this.validCount += valid ? 1 : -1;
+    this.moves = null;
+  }
+
+  private isValid(i: number): boolean {
+    const flags = this.flags[i];
+    if (flags & PAIR_ALWAYS_VALID) return true;
+    return (flags & PAIR_MATCHES) !== 0 && this.boardLength + this.gain[i] > 0;
+  }
+
+  private pairAt(i: number): { a: GridPosition; b: GridPosition } {
+    const cell = i >> 1;
+    const row = Math.floor(cell / this.cols);
+    const col = cell % this.cols;
+    return i & 1
+      ? { a: { row, col }, b: { row: row + 1, col } }
+      : { a: { row, col }, b: { row, col: col + 1 } };
+  }
+
+  private rebuild(grid: (TileType | null)[][], locked?: boolean[][]): void {
+    this.rows = grid.length;
+    this.cols = grid[0].length;
+    this.grid = grid.map((row) => [...row]);
+    this.locked = grid.map((row, r) => row.map((_, c) => locked?.[r][c] === true));
+    this.lineLength = new Array(this.rows + this.cols).fill(0);
+    for (let line = 0; line < this.rows + this.cols; line++) this.measureLine(line);
+    this.sumBoard();
+    this.flags = new Uint8Array(this.rows * this.cols * 2);
+    this.gain = new Int32Array(this.rows * this.cols * 2);
+    this.valid = new Uint8Array(this.rows * this.cols * 2);
+    this.validCount = 0;
+    this.moves = null;
+    for (let r = 0; r < this.rows; r++) {
+      for (let c = 0; c < this.cols; c++) {
+        this.measurePair(r, c, 0);
+        this.measurePair(r, c, 1);
+      }
+    }
+  }
+
+  private sumBoard(): void {
+    this.boardLength = 0;
+    for (const length of this.lineLength) this.boardLength += length;
+  }
+
+  private measureLine(line: number): void {
+    this.lineLength[line] = this.scanLine(line);
+  }
+
+  /** Total run length in a row (line < rows) or column, as it stands in `grid`. */
+  private scanLine(line: number): number {
+    let total = 0;
+    const add = (_: number, length: number): void => { total += length; };
+    if (line < this.rows) {
+      scanRuns(this.cols, (c) => this.grid[line][c], add);
+    } else {
+      const c = line - this.rows;
+      scanRuns(this.rows, (r) => this.grid[r][c], add);
+    }
+    return total;
+  }
+
+  /** Work out the flags, gain and validity of the pair from (r, c) rightwards (d = 0) or downwards (d = 1). */
+  private measurePair(r: number, c: number, d: 0 | 1): void {
+    const i = 2 * (r * this.cols + c) + d;
+    this.scanPair(i, r, c, d);
+    this.updateValid(i);
+  }
+
+  private scanPair(i: number, r: number, c: number, d: 0 | 1): void {
+    const r2 = r + d;
+    const c2 = c + 1 - d;
+    this.flags[i] = 0;
+    this.gain[i] = 0;
+    if (!canSwap(this.grid, this.locked, r, c) || !canSwap(this.grid, this.locked, r2, c2)) return;
+
+    const x = this.grid[r][c];
+    const y = this.grid[r2][c2];
+    if (x === TileType.ColorBomb || y === TileType.ColorBomb) {
+      this.flags[i] = PAIR_ALWAYS_VALID;
+      return;
+    }
+    const flags = PAIR_MATCHES | (combines(x, y) ? PAIR_ALWAYS_VALID : 0);
+
+    // The lines the swap rewrites: the shared row or column, and one crossing line per cell
+    const lines = d === 0
+      ? [r, this.rows + c, this.rows + c2]
+      : [this.rows + c, r, r2];
+    swap(this.grid, r, c, r2, c2);
+    let gain = 0;
+    for (const line of lines) gain += this.scanLine(line) - this.lineLength[line];
+    swap(this.grid, r, c, r2, c2);
+
+    this.flags[i] = flags;
+    this.gain[i] = gain;
+  }
+}
+
 function swap(
   grid: (TileType | null)[][],
   r1: number,
@@ -1,18 +1,90 @@
-import { GRID_COLS, GRID_ROWS, MIN_MATCH } from "../constants";
+import { MIN_MATCH } from "../constants";
 import { TileType } from "../types";
+import type { BoardShape } from "../types";
+import { isPlayable } from "./shape";
+
+/**
+ * Seedable pseudo-random generator (mulberry32).
+ * All game randomness goes through a single instance, so the same seed
+ * and the same moves always reproduce the same game.
+ */
+export class Rng {
+  readonly seed: number;
+  private _state: number;
+
+  constructor(seed: number = randomSeed()) {
+    this.seed = seed >>> 0;
+    this._state = this.seed;
+  }
+
+  /** Internal generator state, for saving and restoring a game in progress. */
+  get state(): number {
+    return this._state;
+  }
+
+  set state(value: number) {
+    this._state = value >>> 0;
+  }
+
+  /** Next float in [0, 1). */
+  next(): number {
+    this._state = (this._state + 0x6d2b79f5) >>> 0;
+    let t = this._state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Next integer in [0, n). */
+  int(n: number): number {
+    return Math.floor(this.next() * n);
+  }
+
+  /** Pick a uniformly random element of a non-empty array. */
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)];
+  }
+}
+
+/** A fresh unpredictable seed. */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * Turn user-supplied text (e.g. a URL parameter) into a seed.
+ * Plain integers are used as-is; anything else (like "2026-10-19" for a
+ * daily challenge) is hashed with FNV-1a.
+ */
+export function parseSeed(text: string): number {
+  const trimmed = text.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) >>> 0;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < trimmed.length; i++) {
+    hash ^= trimmed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
 
 /**
  * Generate an initial grid with no pre-existing matches.
  * Uses a simple constraint: when placing a tile, avoid creating a run of
  * MIN_MATCH in the row or column by excluding types that would do so.
+ * Holes in the shape are left null.
  */
-export function generateGrid(colorCount: number): TileType[][] {
-  const grid: TileType[][] = [];
+export function generateGrid(colorCount: number, rng: Rng, shape: BoardShape): (TileType | null)[][] {
+  const grid: (TileType | null)[][] = [];
 
-  for (let r = 0; r < GRID_ROWS; r++) {
+  for (let r = 0; r < shape.rows; r++) {
     grid[r] = [];
-    for (let c = 0; c < GRID_COLS; c++) {
-      const forbidden = new Set<TileType>();
+    for (let c = 0; c < shape.cols; c++) {
+      if (!isPlayable(shape, r, c)) {
+        grid[r][c] = null;
+        continue;
+      }
+
+      const forbidden = new Set<TileType | null>();
 
       // Check horizontal: if the two tiles to the left are the same type, forbid it
       if (c >= MIN_MATCH - 1) {
@@ -37,7 +109,7 @@ export function generateGrid(colorCount: number): TileType[][] {
         }
       }
 
-      grid[r][c] = allowed[Math.floor(Math.random() * allowed.length)];
+      grid[r][c] = rng.pick(allowed);
     }
   }
 
@@ -45,12 +117,12 @@ export function generateGrid(colorCount: number): TileType[][] {
 }
 
 /** Pick a random tile type from the active color pool, optionally excluding certain types. */
-export function randomTileType(colorCount: number, exclude?: Set<TileType>): TileType {
+export function randomTileType(colorCount: number, rng: Rng, exclude?: Set<TileType>): TileType {
   const allowed: TileType[] = [];
   for (let t = 0; t < colorCount; t++) {
     if (!exclude || !exclude.has(t as TileType)) {
       allowed.push(t as TileType);
     }
   }
-  return allowed[Math.floor(Math.random() * allowed.length)];
+  return rng.pick(allowed);
 }
@@ -0,0 +1,88 @@
+import { DEFAULT_COLS, DEFAULT_ROWS, MAX_GRID_SIZE, MIN_GRID_SIZE } from "../constants";
+import type { BoardShape, GridPosition } from "../types";
+
+/** Names of the built-in board layouts. */
+export type ShapePreset = "rect" | "cross" | "diamond";
+
+export const DEFAULT_SHAPE: BoardShape = { rows: DEFAULT_ROWS, cols: DEFAULT_COLS };
+
+/** True when the cell exists on the board (inside the grid and not a hole). */
+export function isPlayable(shape: BoardShape, row: number, col: number): boolean {
+  if (row < 0 || row >= shape.rows || col < 0 || col >= shape.cols) return false;
+  return !shape.mask || shape.mask[row][col];
+}
+
+/** The top-left-most cell that exists on the board. */
+export function firstPlayable(shape: BoardShape): GridPosition {
+  for (let r = 0; r < shape.rows; r++) {
+    for (let c = 0; c < shape.cols; c++) {
+      if (isPlayable(shape, r, c)) return { row: r, col: c };
+    }
+  }
+  return { row: 0, col: 0 };
+}
+
+/** True when both shapes have the same size and the same cells. */
+export function sameShape(a: BoardShape, b: BoardShape): boolean {
+  if (a.rows !== b.rows || a.cols !== b.cols) return false;
+  for (let r = 0; r < a.rows; r++) {
+    for (let c = 0; c < a.cols; c++) {
+      if (isPlayable(a, r, c) !== isPlayable(b, r, c)) return false;
+    }
+  }
+  return true;
+}
+
+/** Build one of the preset layouts at the given size. */
+export function presetShape(preset: ShapePreset, rows: number, cols: number): BoardShape {
+  if (preset === "rect") return { rows, cols };
+
+  const mask: boolean[][] = [];
+  for (let r = 0; r < rows; r++) {
+    mask[r] = [];
+    for (let c = 0; c < cols; c++) {
+      if (preset === "cross") {
+        // Middle half of the rows or columns
+        const rowBand = r >= Math.floor(rows / 4) && r < rows - Math.floor(rows / 4);
+        const colBand = c >= Math.floor(cols / 4) && c < cols - Math.floor(cols / 4);
+        mask[r][c] = rowBand || colBand;
+      } else {
+        const dr = Math.abs(r - (rows - 1) / 2) / (rows / 2);
+        const dc = Math.abs(c - (cols - 1) / 2) / (cols / 2);
+        mask[r][c] = dr + dc <= 1;
+      }
+    }
+  }
+  return { rows, cols, mask };
+}
+
+/**
+ * Parse a mask written as rows separated by "/", with "#" for a cell and
+ * "." for a hole, e.g. ".##./####/####/.##.". Throws on malformed input.
+ */
+export function parseMask(text: string): BoardShape {
+  const lines = text.trim().split("/");
+  const cols = lines[0].length;
+  if (lines.some((line) => line.length !== cols || /[^#.]/.test(line))) {
+    throw new Error(`Malformed board mask: ${text}`);
+  }
+  const shape: BoardShape = {
+    rows: lines.length,
+    cols,
+    mask: lines.map((line) => [...line].map((ch) => ch === "#")),
+  };
+  if (!isValidShape(shape)) {
+    throw new Error(`Board mask out of range: ${text}`);
+  }
+  return shape;
+}
+
+/** Check size limits and that the mask (if any) matches the size. */
+export function isValidShape(shape: BoardShape): boolean {
+  const inRange = (n: number) => Number.isInteger(n) && n >= MIN_GRID_SIZE && n <= MAX_GRID_SIZE;
+  if (!inRange(shape.rows) || !inRange(shape.cols)) return false;
+  if (!shape.mask) return true;
+  return shape.mask.length === shape.rows
+    && shape.mask.every((row) => Array.isArray(row) && row.length === shape.cols)
+    && shape.mask.some((row) => row.some(Boolean));
+}
@@ -0,0 +1,75 @@
+import { TileType } from "../src/types";
+
+/**
+ * Test fixtures drawn as ASCII art, one character per cell:
+ *
+ *   R B G Y P O K   red, blue, green, yellow, purple, orange, pink (K)
+ *   L A *           line bomb, area bomb, color bomb
+ *   #               stone
+ *   .               empty cell or hole
+ *
+ * A lower-case letter is that tile chain-locked. Rows go on separate lines
+ * (surrounding blank lines and indentation are ignored) or are separated
+ * by "/", so `RRL/BGB` and a two-line block are the same grid.
+ */
+const SYMBOLS: Record<string, TileType | null> = {
+  R: TileType.Red,
+  B: TileType.Blue,
+  G: TileType.Green,
+  Y: TileType.Yellow,
+  P: TileType.Purple,
+  O: TileType.Orange,
+  K: TileType.Pink,
+  L: TileType.LineBomb,
+  A: TileType.AreaBomb,
+  "*": TileType.ColorBomb,
+  "#": TileType.Stone,
+  ".": null,
+};
+
+export type Grid = (TileType | null)[][];
+
+export interface AsciiBoard {
+  grid: Grid;
+  locked: boolean[][];
+}
+
+/** Parse a fixture into a type grid and its chain locks. */
+export function parseBoard(text: string): AsciiBoard {
+  const rows = text
+    .split(/[\n/]/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+  if (rows.length === 0) throw new Error("Empty grid");
+  if (rows.some((row) => row.length !== rows[0].length)) {
+    throw new Error(`Ragged grid:\n${rows.join("\n")}`);
+  }
+
+  const grid = rows.map((row) => [...row].map((ch) => {
+    const type = SYMBOLS[ch.toUpperCase()];
+    if (type === undefined) throw new Error(`Unknown cell "${ch}" in:\n${rows.join("\n")}`);
+    return type;
+  }));
+  const locked = rows.map((row) => [...row].map((ch) => ch !== ch.toUpperCase()));
+  return { grid, locked };
+}
+
+/** Parse a fixture that has no locks. */
+export function parseGrid(text: string): Grid {
+  return parseBoard(text).grid;
+}
+
+/** Draw a grid back as a fixture, one row per line. */
+export function formatGrid(grid: Grid, locked?: boolean[][]): string {
+  return grid
+    .map((row, r) => row
+      .map((type, c) => {
+        const ch = Object.keys(SYMBOLS).find((key) => SYMBOLS[key] === type)!;
+        return locked?.[r][c] ? ch.toLowerCase() : ch;
+      })
+      .join(""))
+    .join("\n");
+}
+
+/** Every symbol, for property tests that draw random grids. */
+export const CELL_SYMBOLS = Object.keys(SYMBOLS);
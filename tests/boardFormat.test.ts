@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { TileType } from "../src/types";
+import { GameEngine } from "../src/game/GameEngine";
+import { formatBoardLayout, fromBoardFile, parseBoardLayout, toBoardFile } from "../src/utils/boardFormat";
+import { Rng } from "../src/utils/random";
+
+describe("parseBoardLayout", () => {
+  it("reads colors, bombs and stones", () => {
+    const layout = parseBoardLayout("RBGY/POK*/R-B|G@#");
+    expect(layout.shape).toEqual({ rows: 3, cols: 4 });
+    expect(layout.cells[0].map((cell) => cell?.type)).toEqual([
+      TileType.Red, TileType.Blue, TileType.Green, TileType.Yellow,
+    ]);
+    expect(layout.cells[1][3]).toEqual({ type: TileType.ColorBomb });
+    expect(layout.cells[2]).toEqual([
+      { type: TileType.LineBomb, orientation: "horizontal", baseType: TileType.Red },
+      { type: TileType.LineBomb, orientation: "vertical", baseType: TileType.Blue },
+      { type: TileType.AreaBomb, baseType: TileType.Green },
+      { type: TileType.Stone },
+    ]);
+  });
+
+  it("reads bombs without a base color", () => {
+    expect(parseBoardLayout("- | @/RBG/GBR").cells[0]).toEqual([
+      { type: TileType.LineBomb, orientation: "horizontal" },
+      { type: TileType.LineBomb, orientation: "vertical" },
+      { type: TileType.AreaBomb },
+    ]);
+  });
+
+  it("reads locks and ice layers, with or without separators", () => {
+    const layout = parseBoardLayout("R!ii, B, #i/G Y-! *i/RBG");
+    expect(layout.cells[0][0]).toEqual({ type: TileType.Red, locked: true });
+    expect(layout.cells[1][1]).toEqual({
+      type: TileType.LineBomb, orientation: "horizontal", baseType: TileType.Yellow, locked: true,
+    });
+    expect(layout.ice).toEqual([[2, 0, 1], [0, 0, 1], [0, 0, 0]]);
+  });
+
+  it("masks holes", () => {
+    const layout = parseBoardLayout(`
+      .RB.
+      GRBY
+      .YG.
+    `);
+    expect(layout.cells[0][0]).toBeNull();
+    expect(layout.shape.mask).toEqual([
+      [false, true, true, false],
+      [true, true, true, true],
+      [false, true, true, false],
+    ]);
+  });
+
+  it("accepts the JSON form with a color count", () => {
+    const layout = parseBoardLayout('{"board": "RBG/GBR/BRG", "colors": 4}');
+    expect(layout.colors).toBe(4);
+    expect(layout.cells[1][0]).toEqual({ type: TileType.Green });
+  });
+
+  it("rejects malformed boards", () => {
+    expect(() => parseBoardLayout("RBX/RBG/RBG")).toThrow(/Unknown cell "X"/);
+    expect(() => parseBoardLayout("RBG/RB/RBG")).toThrow(/differ in length/);
+    expect(() => parseBoardLayout("RB/GR")).toThrow(/out of range/);
+    expect(() => parseBoardLayout("#!BG/RBG/RBG")).toThrow(/chain-locked/);
+    expect(() => parseBoardLayout(".iBG/RBG/RBG")).toThrow(/Ice on a hole/);
+    expect(() => parseBoardLayout('{"board": "RBG/GBR/BRG", "colors": 0}')).toThrow(/color count/);
+    expect(() => parseBoardLayout('{"colors": 3}')).toThrow(/board string/);
+  });
+});
+
+describe("formatBoardLayout", () => {
+  it("round-trips every kind of cell", () => {
+    const layout = parseBoardLayout("R-B|G@Y/- | @ */R!iiB#i./K-!P!O*!i");
+    expect(parseBoardLayout(formatBoardLayout(layout))).toEqual(layout);
+    expect(parseBoardLayout(formatBoardLayout(layout, "\n"))).toEqual(layout);
+  });
+
+  it("keeps a bare bomb apart from the color before it", () => {
+    const layout = parseBoardLayout("R - G/RBG/GBR");
+    expect(formatBoardLayout(layout)).toBe("R -G/RBG/GBR");
+    expect(parseBoardLayout(formatBoardLayout(layout))).toEqual(layout);
+  });
+
+  it("round-trips the JSON form", () => {
+    const layout = parseBoardLayout('{"board": "RBG/G*Ri/BRG", "colors": 5}');
+    expect(toBoardFile(layout)).toEqual({ board: "RBG/G*Ri/BRG", colors: 5 });
+    expect(fromBoardFile(toBoardFile(layout))).toEqual(layout);
+  });
+});
+
+describe("GameEngine with a layout", () => {
+  it("starts from the given board and exports it unchanged", () => {
+    const text = "RBGY/BGYB-/G@YRBi/*R!#.";
+    const layout = parseBoardLayout(text);
+    const engine = new GameEngine(new Rng(1), undefined, 5, undefined, layout);
+    expect(engine.shape).toEqual(layout.shape);
+    expect(formatBoardLayout(engine.currentLayout())).toBe(text);
+    expect(engine.currentLayout().colors).toBe(5);
+  });
+});
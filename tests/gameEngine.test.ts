@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { GameEngine } from "../src/game/GameEngine";
+import type { GameEvent, GridPosition } from "../src/types";
+import { parseBoardLayout } from "../src/utils/boardFormat";
+import { Rng } from "../src/utils/random";
+
+/** Every event of one type, in order. */
+function eventsOf<T extends GameEvent["type"]>(events: GameEvent[], type: T): Extract<GameEvent, { type: T }>[] {
+  return events.filter((e): e is Extract<GameEvent, { type: T }> => e.type === type);
+}
+
+const at = (row: number, col: number): GridPosition => ({ row, col });
+
+describe("chain-locked tiles", () => {
+  it("are unlocked, not replaced, when a bonus would land on them", () => {
+    // The greens in column 1 clear and the red above them drops into the
+    // bottom row, making four reds around the locked one in the middle of the run
+    const layout = parseBoardLayout(`
+      BRYB
+      YGBY
+      BYGB
+      RGR!R
+    `);
+    const engine = new GameEngine(new Rng(5), undefined, 4, undefined, layout);
+    const events = engine.applySwap({ a: at(2, 1), b: at(2, 2) });
+
+    expect(eventsOf(events, "unlocked").flatMap((e) => e.positions)).toContainEqual(at(3, 2));
+    const bonuses = eventsOf(events, "bonusSpawned");
+    expect(bonuses.length).toBeGreaterThan(0);
+    expect(bonuses.map((e) => e.pos)).not.toContainEqual(at(3, 2));
+  });
+
+  it("aren't turned into bombs by a color bomb and line bomb swap", () => {
+    const layout = parseBoardLayout(`
+      *R-BG
+      BGR!Y
+      GRBG
+      YBGR
+    `);
+    const engine = new GameEngine(new Rng(4), undefined, 4, undefined, layout);
+    const events = engine.applySwap({ a: at(0, 0), b: at(0, 1) });
+
+    const [converted] = eventsOf(events, "bombsConverted");
+    expect(converted.bombs.map((b) => at(b.row, b.col))).toEqual([at(2, 1), at(3, 3)]);
+  });
+});
+
+describe("refilling", () => {
+  it("grows new tiles in place under a stone or locked tile", () => {
+    // Clearing the greens drops the blue under the locked yellow a row,
+    // leaving a gap nothing can fall into
+    const layout = parseBoardLayout(`
+      BY!BY
+      YBYB
+      GRGY
+      RGBR
+    `);
+    const engine = new GameEngine(new Rng(2), undefined, 4, undefined, layout);
+    const events = engine.applySwap({ a: at(2, 1), b: at(3, 1) });
+
+    // The first refill, before any cascade it sets off
+    const [{ spawns }] = eventsOf(events, "spawned");
+    expect(spawns.filter((s) => s.inPlace).map((s) => at(s.row, s.col))).toEqual([at(1, 1)]);
+    for (let r = 0; r < 4; r++) {
+      for (let c = 0; c < 4; c++) expect(engine.cellAt(r, c)).not.toBeNull();
+    }
+  });
+});
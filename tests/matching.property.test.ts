@@ -0,0 +1,192 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { MAX_GRID_SIZE, MIN_GRID_SIZE, MIN_MATCH } from "../src/constants";
+import { TileType, TILE_TYPE_COUNT } from "../src/types";
+import type { GridPosition, MatchGroup } from "../src/types";
+import { findMatches, findValidMove, hasValidMoves } from "../src/utils/matching";
+import { Rng, generateGrid } from "../src/utils/random";
+import { presetShape } from "../src/utils/shape";
+import { parseBoard, parseGrid } from "./asciiGrid";
+import type { Grid } from "./asciiGrid";
+
+/**
+ * Random fixtures in the one-line form ("RRB/BBR"), so a shrunk
+ * counterexample can be pasted straight into a regular test.
+ */
+function asciiGrid(cells: fc.Arbitrary<string>): fc.Arbitrary<string> {
+  return fc
+    .record({ rows: fc.integer({ min: 1, max: 8 }), cols: fc.integer({ min: 1, max: 8 }) })
+    .chain(({ rows, cols }) => fc.array(
+      fc.string({ unit: cells, minLength: cols, maxLength: cols }),
+      { minLength: rows, maxLength: rows },
+    ))
+    .map((lines) => lines.join("/"));
+}
+
+/** Mostly three colors (so runs are common), with bombs, stones, holes and locks mixed in. */
+const anyCell = fc.oneof(
+  { arbitrary: fc.constantFrom("R", "B", "G"), weight: 12 },
+  { arbitrary: fc.constantFrom("L", "A", "*", "#", "."), weight: 3 },
+  { arbitrary: fc.constantFrom("r", "b", "g"), weight: 1 },
+);
+/** Colors, stones and holes only: nothing wild. */
+const plainCell = fc.oneof(
+  { arbitrary: fc.constantFrom("R", "B", "G"), weight: 8 },
+  { arbitrary: fc.constantFrom("#", "."), weight: 1 },
+);
+
+const isWild = (t: TileType | null) => t === TileType.LineBomb || t === TileType.AreaBomb;
+const key = (p: GridPosition) => `${p.row},${p.col}`;
+
+function transpose(grid: Grid): Grid {
+  return grid[0].map((_, c) => grid.map((row) => row[c]));
+}
+
+/** Each group as a sorted list of "direction:cells" strings, for comparing sets of matches. */
+function signature(groups: MatchGroup[]): string[] {
+  return groups.map((g) => `${g.direction}:${g.positions.map(key).join(" ")}`).sort();
+}
+
+/** Straightforward reference for wild-free grids: every maximal same-color run of MIN_MATCH+. */
+function plainRuns(grid: Grid): MatchGroup[] {
+  const groups: MatchGroup[] = [];
+  const lines: { direction: MatchGroup["direction"]; cells: GridPosition[] }[] = [];
+  for (let r = 0; r < grid.length; r++) {
+    lines.push({ direction: "horizontal", cells: grid[0].map((_, c) => ({ row: r, col: c })) });
+  }
+  for (let c = 0; c < grid[0].length; c++) {
+    lines.push({ direction: "vertical", cells: grid.map((_, r) => ({ row: r, col: c })) });
+  }
+  for (const { direction, cells } of lines) {
+    let run: GridPosition[] = [];
+    for (const p of [...cells, null]) {
+      const t = p ? grid[p.row][p.col] : null;
+      const color = run.length > 0 ? grid[run[0].row][run[0].col] : null;
+      if (p && t !== null && t !== TileType.Stone && (run.length === 0 || t === color)) {
+        run.push(p);
+        continue;
+      }
+      if (run.length >= MIN_MATCH) groups.push({ positions: run, length: run.length, direction });
+      run = p && t !== null && t !== TileType.Stone ? [p] : [];
+    }
+  }
+  return groups;
+}
+
+function swapped(grid: Grid, a: GridPosition, b: GridPosition): Grid {
+  const copy = grid.map((row) => [...row]);
+  [copy[a.row][a.col], copy[b.row][b.col]] = [copy[b.row][b.col], copy[a.row][a.col]];
+  return copy;
+}
+
+const matchedLength = (grid: Grid) => findMatches(grid).reduce((sum, m) => sum + m.length, 0);
+
+describe("findMatches properties", () => {
+  it("reports straight, unbroken runs of one color (plus wilds)", () => {
+    fc.assert(fc.property(asciiGrid(anyCell), (text) => {
+      const grid = parseGrid(text);
+      for (const group of findMatches(grid)) {
+        expect(group.length).toBe(group.positions.length);
+        expect(group.length).toBeGreaterThanOrEqual(MIN_MATCH);
+        const [dr, dc] = group.direction === "horizontal" ? [0, 1] : [1, 0];
+        const colors = new Set<TileType | null>();
+        group.positions.forEach((p, i) => {
+          expect(p).toEqual({ row: group.positions[0].row + dr * i, col: group.positions[0].col + dc * i });
+          const t = grid[p.row][p.col];
+          expect(t).not.toBeNull();
+          expect(t).not.toBe(TileType.ColorBomb);
+          expect(t).not.toBe(TileType.Stone);
+          if (!isWild(t)) colors.add(t);
+        });
+        expect(colors.size).toBeLessThanOrEqual(1);
+      }
+    }));
+  });
+
+  it("finds exactly the maximal same-color runs when nothing is wild", () => {
+    fc.assert(fc.property(asciiGrid(plainCell), (text) => {
+      const grid = parseGrid(text);
+      expect(signature(findMatches(grid))).toEqual(signature(plainRuns(grid)));
+    }));
+  });
+
+  it("treats rows and columns alike", () => {
+    fc.assert(fc.property(asciiGrid(anyCell), (text) => {
+      const grid = parseGrid(text);
+      const flipped = findMatches(transpose(grid)).map((g) => ({
+        ...g,
+        direction: g.direction === "horizontal" ? "vertical" as const : "horizontal" as const,
+        positions: g.positions.map((p) => ({ row: p.col, col: p.row })),
+      }));
+      expect(signature(flipped)).toEqual(signature(findMatches(grid)));
+    }));
+  });
+});
+
+describe("move search properties", () => {
+  it("only suggests legal swaps that match, and none longer exists", () => {
+    fc.assert(fc.property(asciiGrid(anyCell), (text) => {
+      const { grid, locked } = parseBoard(text);
+      const move = findValidMove(grid, locked);
+      if (!move) return;
+      const { a, b } = move;
+      expect(Math.abs(a.row - b.row) + Math.abs(a.col - b.col)).toBe(1);
+      for (const p of [a, b]) {
+        expect(locked[p.row][p.col]).toBe(false);
+        expect([null, TileType.Stone, TileType.ColorBomb]).not.toContain(grid[p.row][p.col]);
+      }
+      expect(hasValidMoves(grid, locked)).toBe(true);
+
+      const best = matchedLength(swapped(grid, a, b));
+      expect(best).toBeGreaterThan(0);
+      for (let r = 0; r < grid.length; r++) {
+        for (let c = 0; c < grid[0].length; c++) {
+          for (const other of [{ row: r, col: c + 1 }, { row: r + 1, col: c }]) {
+            if (other.row >= grid.length || other.col >= grid[0].length) continue;
+            const cells = [grid[r][c], grid[other.row][other.col]];
+            if (cells.some((t) => t === null || t === TileType.Stone || t === TileType.ColorBomb)) continue;
+            if (locked[r][c] || locked[other.row][other.col]) continue;
+            expect(matchedLength(swapped(grid, { row: r, col: c }, other))).toBeLessThanOrEqual(best);
+          }
+        }
+      }
+    }));
+  });
+
+  it("finds no hint when there are no valid moves", () => {
+    fc.assert(fc.property(asciiGrid(anyCell), (text) => {
+      const { grid, locked } = parseBoard(text);
+      if (!hasValidMoves(grid, locked)) expect(findValidMove(grid, locked)).toBeNull();
+    }));
+  });
+
+  it("leaves the grid untouched", () => {
+    fc.assert(fc.property(asciiGrid(anyCell), (text) => {
+      const { grid, locked } = parseBoard(text);
+      hasValidMoves(grid, locked);
+      findValidMove(grid, locked);
+      expect(grid).toEqual(parseBoard(text).grid);
+    }));
+  });
+});
+
+describe("generateGrid properties", () => {
+  it("never deals a match, whatever the seed, size, layout or color count", () => {
+    fc.assert(fc.property(
+      fc.integer({ min: 0, max: 0xffffffff }),
+      fc.integer({ min: MIN_MATCH, max: TILE_TYPE_COUNT }),
+      fc.constantFrom("rect" as const, "cross" as const, "diamond" as const),
+      fc.integer({ min: MIN_GRID_SIZE, max: MAX_GRID_SIZE }),
+      fc.integer({ min: MIN_GRID_SIZE, max: MAX_GRID_SIZE }),
+      (seed, colors, preset, rows, cols) => {
+        const grid = generateGrid(colors, new Rng(seed), presetShape(preset, rows, cols));
+        expect(findMatches(grid)).toEqual([]);
+        for (const row of grid) {
+          for (const t of row) {
+            if (t !== null) expect(t).toBeLessThan(colors);
+          }
+        }
+      },
+    ));
+  });
+});
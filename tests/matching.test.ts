@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import { findMatches, findValidMove, hasValidMoves } from "../src/utils/matching";
+import { parseBoard, parseGrid } from "./asciiGrid";
+
+/** Each match as its direction, length and first cell, e.g. "horizontal 3 @0,0". */
+function summarize(text: string): string[] {
+  return findMatches(parseGrid(text)).map((m) =>
+    `${m.direction} ${m.length} @${m.positions[0].row},${m.positions[0].col}`);
+}
+
+describe("findMatches", () => {
+  it("finds plain horizontal and vertical runs", () => {
+    expect(summarize("RRRB")).toEqual(["horizontal 3 @0,0"]);
+    expect(summarize("R/R/R/B")).toEqual(["vertical 3 @0,0"]);
+    expect(summarize(`
+      RRR
+      RBG
+      RGB
+    `)).toEqual(["horizontal 3 @0,0", "vertical 3 @0,0"]);
+  });
+
+  it("ignores runs shorter than three", () => {
+    expect(summarize("RRBB")).toEqual([]);
+  });
+
+  it("lets line and area bombs stand in for any color", () => {
+    expect(summarize("RLR")).toEqual(["horizontal 3 @0,0"]);
+    expect(summarize("LRR")).toEqual(["horizontal 3 @0,0"]);
+    expect(summarize("RRA")).toEqual(["horizontal 3 @0,0"]);
+    expect(summarize("GRRLRRG")).toEqual(["horizontal 5 @0,1"]);
+    expect(summarize("B/L/B")).toEqual(["vertical 3 @0,0"]);
+  });
+
+  it("gives a bomb between two colors to the run it continues", () => {
+    // L extends the reds; the blues after it are left with only two
+    expect(summarize("RRLBB")).toEqual(["horizontal 3 @0,0"]);
+  });
+
+  it("matches runs made only of line and area bombs", () => {
+    expect(summarize("LLL")).toEqual(["horizontal 3 @0,0"]);
+    expect(summarize("LAL")).toEqual(["horizontal 3 @0,0"]);
+    expect(summarize("ALLA")).toEqual(["horizontal 4 @0,0"]);
+  });
+
+  it("never counts a color bomb as part of a run", () => {
+    expect(summarize("RR*RR")).toEqual([]);
+    expect(summarize("RR*")).toEqual([]);
+    expect(summarize("*RR")).toEqual([]);
+    expect(summarize("***")).toEqual([]);
+    expect(summarize("LL*")).toEqual([]);
+    expect(summarize("*RRR")).toEqual(["horizontal 3 @0,1"]);
+  });
+
+  it("breaks runs at stones and holes", () => {
+    expect(summarize("RR#RR")).toEqual([]);
+    expect(summarize("RR.RR")).toEqual([]);
+    expect(summarize("###")).toEqual([]);
+    expect(summarize("...")).toEqual([]);
+  });
+});
+
+describe("hasValidMoves", () => {
+  it("finds a swap that lines up three", () => {
+    expect(hasValidMoves(parseGrid(`
+      RRB
+      BBR
+    `))).toBe(true);
+  });
+
+  it("reports a board with no matching swap", () => {
+    expect(hasValidMoves(parseGrid(`
+      RBG
+      GRB
+    `))).toBe(false);
+  });
+
+  it("counts any swap of a color bomb with a movable neighbour", () => {
+    expect(hasValidMoves(parseGrid("*R"))).toBe(true);
+    expect(hasValidMoves(parseGrid("*#"))).toBe(false);
+    expect(hasValidMoves(parseGrid("*."))).toBe(false);
+  });
+
+  it("counts two line or area bombs side by side as a combo", () => {
+    expect(hasValidMoves(parseGrid("LA"))).toBe(true);
+    expect(hasValidMoves(parseGrid("L/L"))).toBe(true);
+  });
+
+  it("won't move chain-locked tiles", () => {
+    const { grid, locked } = parseBoard(`
+      RRB
+      BBr
+    `);
+    expect(hasValidMoves(grid)).toBe(true);
+    expect(hasValidMoves(grid, locked)).toBe(false);
+  });
+
+  it("leaves the grid as it found it", () => {
+    const grid = parseGrid(`
+      RRB
+      BBR
+      GGY
+    `);
+    const before = JSON.stringify(grid);
+    hasValidMoves(grid);
+    expect(JSON.stringify(grid)).toBe(before);
+  });
+});
+
+describe("findValidMove", () => {
+  it("prefers the swap that makes the longest match", () => {
+    // Swapping Y and G makes three greens; dropping the R into the B's slot makes five reds
+    const { grid } = parseBoard(`
+      GGYG#RRBRR
+      ####.##R##
+    `);
+    expect(findValidMove(grid)).toEqual({ a: { row: 0, col: 7 }, b: { row: 1, col: 7 } });
+  });
+
+  it("returns null when nothing matches", () => {
+    expect(findValidMove(parseGrid(`
+      RBG
+      GRB
+    `))).toBeNull();
+  });
+
+  it("doesn't suggest color bomb swaps", () => {
+    const grid = parseGrid("*R");
+    expect(hasValidMoves(grid)).toBe(true);
+    expect(findValidMove(grid)).toBeNull();
+  });
+
+  it("skips chain-locked tiles", () => {
+    const { grid, locked } = parseBoard(`
+      RRB
+      BBr
+    `);
+    expect(findValidMove(grid)).not.toBeNull();
+    expect(findValidMove(grid, locked)).toBeNull();
+  });
+});
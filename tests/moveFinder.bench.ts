@@ -0,0 +1,36 @@
+import { bench, describe } from "vitest";
+import { TileType } from "../src/types";
+import { MoveFinder, findValidMove, hasValidMoves } from "../src/utils/matching";
+import { Rng, generateGrid } from "../src/utils/random";
+import { presetShape } from "../src/utils/shape";
+
+/**
+ * One move's worth of work on a large board: a swap clears and refills a
+ * few cells, then the game asks for valid moves and a hint.
+ */
+for (const size of [9, 16]) {
+  describe(`${size}x${size} board, after a move`, () => {
+    const rng = new Rng(size);
+    const grid = generateGrid(6, rng, presetShape("rect", size, size));
+    const finder = new MoveFinder(grid);
+
+    /** Replace a short vertical strip, like a match refilling. */
+    const refill = (): void => {
+      const c = rng.int(size);
+      for (let r = 0; r < 3; r++) grid[r][c] = rng.int(6) as TileType;
+    };
+
+    bench("brute force", () => {
+      refill();
+      hasValidMoves(grid);
+      findValidMove(grid);
+    });
+
+    bench("MoveFinder", () => {
+      refill();
+      finder.sync(grid);
+      finder.hasValidMoves();
+      finder.findValidMove();
+    });
+  });
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { TileType } from "../src/types";
+import type { GridPosition } from "../src/types";
+import { MoveFinder, findValidMove, hasValidMoves } from "../src/utils/matching";
+import { Rng, generateGrid } from "../src/utils/random";
+import { presetShape } from "../src/utils/shape";
+
+type Grid = (TileType | null)[][];
+
+/** Any cell content the matcher distinguishes, weighted towards plain colors. */
+function randomCell(rng: Rng, colors: number): TileType | null {
+  if (rng.next() < 0.85) return rng.int(colors) as TileType;
+  return rng.pick([TileType.LineBomb, TileType.AreaBomb, TileType.ColorBomb, TileType.Stone, null]);
+}
+
+function randomBoard(rng: Rng): { grid: Grid; locked: boolean[][]; colors: number } {
+  const rows = 3 + rng.int(8);
+  const cols = 3 + rng.int(8);
+  const colors = 3 + rng.int(4);
+  const grid = generateGrid(colors, rng, presetShape(rng.pick(["rect", "cross", "diamond"] as const), rows, cols));
+  // Sprinkle bombs, stones and holes over the otherwise match-free board
+  for (let i = rng.int(6); i > 0; i--) {
+    grid[rng.int(rows)][rng.int(cols)] = randomCell(rng, colors);
+  }
+  const locked = grid.map((row) => row.map(() => rng.next() < 0.05));
+  return { grid, locked, colors };
+}
+
+/** The brute-force answers, on a copy so the reference can't disturb the grid. */
+function expected(grid: Grid, locked: boolean[][]) {
+  const copy = grid.map((row) => [...row]);
+  return { has: hasValidMoves(copy, locked), best: findValidMove(copy, locked) };
+}
+
+/** Every swap hasValidMoves accepts, found one pair at a time, in scan order. */
+function validSwaps(grid: Grid, locked: boolean[][]): { a: GridPosition; b: GridPosition }[] {
+  const swaps: { a: GridPosition; b: GridPosition }[] = [];
+  for (let r = 0; r < grid.length; r++) {
+    for (let c = 0; c < grid[0].length; c++) {
+      for (const [dr, dc] of [[0, 1], [1, 0]]) {
+        if (r + dr >= grid.length || c + dc >= grid[0].length) continue;
+        // A board with only this pair swappable has a valid move iff the pair is one
+        const only = grid.map((row) => row.map(() => true));
+        only[r][c] = locked[r][c];
+        only[r + dr][c + dc] = locked[r + dr][c + dc];
+        if (hasValidMoves(grid.map((row) => [...row]), only)) {
+          swaps.push({ a: { row: r, col: c }, b: { row: r + dr, col: c + dc } });
+        }
+      }
+    }
+  }
+  return swaps;
+}
+
+describe("MoveFinder", () => {
+  it("agrees with hasValidMoves and findValidMove on fresh boards", () => {
+    const rng = new Rng(1);
+    for (let n = 0; n < 500; n++) {
+      const { grid, locked } = randomBoard(rng);
+      const finder = new MoveFinder(grid, locked);
+      const { has, best } = expected(grid, locked);
+      expect(finder.hasValidMoves()).toBe(has);
+      expect(finder.findValidMove()).toEqual(best);
+    }
+  });
+
+  it("stays in agreement as cells and locks change between syncs", () => {
+    const rng = new Rng(2);
+    for (let n = 0; n < 200; n++) {
+      const { grid, locked, colors } = randomBoard(rng);
+      const finder = new MoveFinder(grid, locked);
+      for (let step = 0; step < 20; step++) {
+        for (let i = rng.int(4); i >= 0; i--) {
+          const r = rng.int(grid.length);
+          const c = rng.int(grid[0].length);
+          if (rng.next() < 0.8) grid[r][c] = randomCell(rng, colors);
+          else locked[r][c] = !locked[r][c];
+        }
+        finder.sync(grid, locked);
+        const { has, best } = expected(grid, locked);
+        expect(finder.hasValidMoves()).toBe(has);
+        expect(finder.findValidMove()).toEqual(best);
+      }
+    }
+  });
+
+  it("lists exactly the swaps the brute-force search accepts", () => {
+    const rng = new Rng(3);
+    for (let n = 0; n < 100; n++) {
+      const { grid, locked } = randomBoard(rng);
+      expect(new MoveFinder(grid, locked).validMoves()).toEqual(validSwaps(grid, locked));
+    }
+  });
+
+  it("keeps the list of valid swaps up to date across syncs", () => {
+    const rng = new Rng(5);
+    for (let n = 0; n < 30; n++) {
+      const { grid, locked, colors } = randomBoard(rng);
+      const finder = new MoveFinder(grid, locked);
+      for (let step = 0; step < 10; step++) {
+        const r = rng.int(grid.length);
+        const c = rng.int(grid[0].length);
+        if (rng.next() < 0.8) grid[r][c] = randomCell(rng, colors);
+        else locked[r][c] = !locked[r][c];
+        finder.sync(grid, locked);
+        expect(finder.validMoves()).toEqual(validSwaps(grid, locked));
+      }
+    }
+  });
+
+  it("rebuilds when the board size changes", () => {
+    const rng = new Rng(4);
+    const first = randomBoard(rng);
+    const finder = new MoveFinder(first.grid, first.locked);
+    const second = randomBoard(rng);
+    finder.sync(second.grid, second.locked);
+    expect(finder.findValidMove()).toEqual(expected(second.grid, second.locked).best);
+  });
+});
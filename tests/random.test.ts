@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { MAX_GRID_SIZE, MIN_GRID_SIZE, MIN_MATCH } from "../src/constants";
+import { TILE_TYPE_COUNT } from "../src/types";
+import { findMatches } from "../src/utils/matching";
+import { Rng, generateGrid } from "../src/utils/random";
+import { isPlayable, presetShape } from "../src/utils/shape";
+import { formatGrid } from "./asciiGrid";
+
+describe("generateGrid", () => {
+  // With fewer colors than MIN_MATCH a run can't always be avoided, so the
+  // guarantee starts there
+  for (let colors = MIN_MATCH; colors <= TILE_TYPE_COUNT; colors++) {
+    it(`never deals a match with ${colors} colors`, () => {
+      for (const preset of ["rect", "cross", "diamond"] as const) {
+        for (let size = MIN_GRID_SIZE; size <= MAX_GRID_SIZE; size++) {
+          for (let seed = 0; seed < 20; seed++) {
+            const grid = generateGrid(colors, new Rng(seed), presetShape(preset, size, size));
+            expect(findMatches(grid), `seed ${seed}:\n${formatGrid(grid)}`).toEqual([]);
+          }
+        }
+      }
+    });
+  }
+
+  it("fills every playable cell with a color in play and leaves holes empty", () => {
+    const shape = presetShape("cross", 9, 7);
+    const grid = generateGrid(4, new Rng(42), shape);
+    for (let r = 0; r < shape.rows; r++) {
+      for (let c = 0; c < shape.cols; c++) {
+        if (isPlayable(shape, r, c)) {
+          expect(grid[r][c]).toBeGreaterThanOrEqual(0);
+          expect(grid[r][c]).toBeLessThan(4);
+        } else {
+          expect(grid[r][c]).toBeNull();
+        }
+      }
+    }
+  });
+
+  it("deals the same board for the same seed", () => {
+    const shape = presetShape("rect", 8, 8);
+    expect(generateGrid(5, new Rng(7), shape)).toEqual(generateGrid(5, new Rng(7), shape));
+  });
+});
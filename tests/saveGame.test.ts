@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GameEngine } from "../src/game/GameEngine";
+import { ReplayRecorder } from "../src/game/Replay";
+import { loadSavedGame, saveGame } from "../src/game/SaveGame";
+import { TileType } from "../src/types";
+import { parseBoardLayout, toBoardFile } from "../src/utils/boardFormat";
+import { Rng } from "../src/utils/random";
+
+/** Save a game the way Board does after a settled move. */
+function save(engine: GameEngine, recorder: ReplayRecorder): void {
+  saveGame({
+    ...engine.snapshot(),
+    seed: engine.seed,
+    shape: engine.shape,
+    activeColors: engine.activeColors,
+    undosLeft: 3,
+    replay: recorder.toJSON(),
+  });
+}
+
+describe("saved games", () => {
+  beforeEach(() => {
+    const store = new Map<string, string>();
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+      removeItem: (key: string) => store.delete(key),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("reloads a pasted board with a bare bomb and colors beyond those in play", () => {
+    // "-" has no base color, and pink (K) isn't among the starting colors
+    const layout = parseBoardLayout("-KBG/RRBR/GBKG/KGGB");
+    const engine = new GameEngine(new Rng(7), undefined, undefined, undefined, layout);
+    expect(engine.activeColors).toBeLessThanOrEqual(TileType.Pink);
+    expect(engine.snapshot().cells[0][0]).toEqual({ type: TileType.LineBomb, orientation: "horizontal" });
+    const recorder = new ReplayRecorder(engine.seed, engine.typeGrid(), engine.shape, undefined, toBoardFile(layout));
+
+    const swap = { a: { row: 1, col: 2 }, b: { row: 1, col: 3 } };
+    expect(engine.applySwap(swap).some((e) => e.type === "matched")).toBe(true);
+    recorder.record(swap);
+    save(engine, recorder);
+
+    const loaded = loadSavedGame();
+    expect(loaded).not.toBeNull();
+    expect(loaded!.cells).toEqual(engine.snapshot().cells);
+    expect(loaded!.cells.flat()).toContainEqual({ type: TileType.LineBomb, orientation: "horizontal" });
+  });
+
+  it("still drops a save with colors nothing could have dealt", () => {
+    const engine = new GameEngine(new Rng(7));
+    const recorder = new ReplayRecorder(engine.seed, engine.typeGrid(), engine.shape);
+    save(engine, recorder);
+    expect(loadSavedGame()).not.toBeNull();
+
+    const cells = engine.snapshot().cells;
+    cells[0][0] = { type: TileType.Pink };
+    saveGame({
+      ...engine.snapshot(),
+      cells,
+      seed: engine.seed,
+      shape: engine.shape,
+      activeColors: engine.activeColors,
+      undosLeft: 3,
+      replay: recorder.toJSON(),
+    });
+    expect(loadSavedGame()).toBeNull();
+  });
+});
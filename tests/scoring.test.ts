@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { GameEngine } from "../src/game/GameEngine";
+import { describeAward, scoreAward } from "../src/game/Scoring";
+import type { GameEvent, ScoreAward } from "../src/types";
+import { parseBoardLayout } from "../src/utils/boardFormat";
+import { Rng } from "../src/utils/random";
+
+/** Awards that count towards a move's chain. */
+const isClear = (a: ScoreAward) => a.kind !== "cascade" && a.kind !== "combo" && a.kind !== "chain";
+
+/** The awards of one move, in order. */
+function awards(events: GameEvent[]): ScoreAward[] {
+  return events.flatMap((e) => (e.type === "scored" ? [e.award] : []));
+}
+
+describe("chain award", () => {
+  it("grows with every extra clear in the move", () => {
+    expect([2, 3, 4, 5].map((clears) => scoreAward({ kind: "chain", clears }))).toEqual([25, 75, 150, 250]);
+    expect(describeAward({ kind: "chain", clears: 3 })).toBe("Chain x3");
+  });
+
+  it("is given once per move, for all of the move's matches and blasts", () => {
+    // Moving the R down makes a row and a column of reds at once
+    const layout = parseBoardLayout(`
+      GBRGB
+      RRBYY
+      BGRGB
+      GBRBG
+    `);
+    const engine = new GameEngine(new Rng(3), undefined, 4, undefined, layout);
+    const moveAwards = awards(engine.applySwap({ a: { row: 0, col: 2 }, b: { row: 1, col: 2 } }));
+
+    const clears = moveAwards.filter(isClear);
+    expect(clears.length).toBeGreaterThanOrEqual(2);
+    expect(moveAwards.filter((a) => a.kind === "chain")).toEqual([{ kind: "chain", clears: clears.length }]);
+    expect(moveAwards[moveAwards.length - 1].kind).toBe("chain");
+  });
+
+  it("comes with every move of two or more clears and no other", () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      const engine = new GameEngine(new Rng(seed));
+      for (let move = 0; move < 10; move++) {
+        const hint = engine.findHint();
+        if (!hint) break;
+        const moveAwards = awards(engine.applySwap(hint));
+        const clears = moveAwards.filter(isClear).length;
+        const chains = moveAwards.filter((a) => a.kind === "chain");
+        expect(chains).toEqual(clears > 1 ? [{ kind: "chain", clears }] : []);
+      }
+    }
+  });
+});
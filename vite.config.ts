@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from "vite";
 import { resolve } from "path";
 
@@ -11,4 +12,10 @@ export default defineConfig({
   build: {
     target: "ES2020",
   },
+  test: {
+    // Game rules only: tests run in plain Node, with no DOM or renderer
+    environment: "node",
+    include: ["tests/**/*.test.ts"],
+    benchmark: { include: ["tests/**/*.bench.ts"] },
+  },
 });